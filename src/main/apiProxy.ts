@@ -0,0 +1,53 @@
+import type { ApiHttpResponse, ApiRequest } from '../shared/ipc'
+import { CredentialStore } from './credentialStore'
+
+// Backend requests made on the renderer's behalf. The renderer runs with web
+// security on and may only connect to itself, so its API client hands each
+// request over here; the main process adds the credentials and only talks to
+// the backend.
+
+export const API_ORIGIN = 'https://booksiam.com'
+
+const DEFAULT_TIMEOUT_MS = 30000
+
+// Headers the renderer may set; authentication is added here
+const FORWARDED_HEADERS = ['accept', 'content-type', 'accept-language']
+
+export function authHeaders(): Record<string, string> {
+  const credentials = CredentialStore.getInstance().get()
+  return credentials ? { Authorization: `Bearer ${credentials.token}`, UserId: credentials.userId } : {}
+}
+
+export async function performApiRequest(request: ApiRequest): Promise<ApiHttpResponse> {
+  const url = new URL(request.url)
+  if (url.origin !== API_ORIGIN) {
+    throw new Error(`Requests to ${url.origin} are not allowed`)
+  }
+
+  const headers: Record<string, string> = {}
+  for (const [name, value] of Object.entries(request.headers)) {
+    if (FORWARDED_HEADERS.includes(name.toLowerCase())) headers[name] = value
+  }
+
+  let response: Response
+  try {
+    response = await fetch(url, {
+      method: request.method,
+      headers: { ...headers, ...authHeaders() },
+      body: request.method === 'GET' ? undefined : request.body,
+      signal: AbortSignal.timeout(request.timeout ?? DEFAULT_TIMEOUT_MS)
+    })
+  } catch (error) {
+    if (error instanceof Error && error.name === 'TimeoutError') {
+      throw new Error(`Request to ${url.pathname} timed out`)
+    }
+    throw error
+  }
+
+  return {
+    status: response.status,
+    statusText: response.statusText,
+    headers: Object.fromEntries(response.headers.entries()),
+    body: await response.text()
+  }
+}
@@ -0,0 +1,324 @@
+import { app, safeStorage } from 'electron'
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto'
+import { promises as fs } from 'fs'
+import { join } from 'path'
+import type { BookCacheStats, CachedBookInfo, OfflineBookMeta } from '../shared/ipc'
+
+// Encrypted on-disk cache of downloaded books, so a book is only fetched once
+// and can be read offline. Files are AES-256-GCM encrypted with a per-install
+// key that is itself protected by the OS keychain (safeStorage) when available.
+
+const DEFAULT_MAX_BYTES = 2 * 1024 * 1024 * 1024 // 2 GB
+const IV_LENGTH = 12
+const TAG_LENGTH = 16
+
+// Title, author and cover are missing on entries from before they were kept
+interface CacheEntry extends Partial<OfflineBookMeta> {
+  bookId: number
+  hash: string
+  size: number
+  file: string
+  cachedAt: number
+  lastAccess: number
+}
+
+interface CacheIndex {
+  version: 1
+  maxBytes: number
+  entries: Record<string, CacheEntry>
+}
+
+interface StoredKey {
+  encrypted: boolean
+  key: string
+}
+
+export class BookCache {
+  private static instance: BookCache
+  private readonly dir = join(app.getPath('userData'), 'book-cache')
+  private readonly indexPath = join(this.dir, 'index.json')
+  private readonly keyPath = join(this.dir, 'key.json')
+  private index: CacheIndex | null = null
+  private key: Buffer | null = null
+  // Serializes index mutations so concurrent downloads don't clobber each other
+  private queue: Promise<unknown> = Promise.resolve()
+
+  static getInstance(): BookCache {
+    if (!BookCache.instance) {
+      BookCache.instance = new BookCache()
+    }
+    return BookCache.instance
+  }
+
+  async get(bookId: number): Promise<Uint8Array | null> {
+    return this.exclusive(async () => {
+      const index = await this.loadIndex()
+      const entry = index.entries[bookId]
+      if (!entry) return null
+
+      try {
+        const data = this.decrypt(await fs.readFile(join(this.dir, entry.file)))
+        if (this.hash(data) !== entry.hash) {
+          throw new Error('content hash mismatch')
+        }
+        entry.lastAccess = Date.now()
+        await this.saveIndex()
+        return data
+      } catch (error) {
+        console.error(`[BookCache] Dropping unreadable entry for book ${bookId}:`, error)
+        await this.removeEntry(index, bookId)
+        await this.saveIndex()
+        return null
+      }
+    })
+  }
+
+  async has(bookId: number): Promise<boolean> {
+    return this.exclusive(async () => {
+      const index = await this.loadIndex()
+      return Boolean(index.entries[bookId])
+    })
+  }
+
+  async put(book: OfflineBookMeta, data: Uint8Array): Promise<void> {
+    const { bookId } = book
+    return this.exclusive(async () => {
+      const index = await this.loadIndex()
+      if (data.byteLength > index.maxBytes) {
+        console.warn(
+          `[BookCache] Book ${bookId} (${data.byteLength} bytes) exceeds the cache limit, not caching`
+        )
+        return
+      }
+
+      const hash = this.hash(data)
+      const existing = index.entries[bookId]
+      if (existing && existing.hash === hash) {
+        Object.assign(existing, book)
+        existing.lastAccess = Date.now()
+        await this.saveIndex()
+        return
+      }
+
+      await this.removeEntry(index, bookId)
+      await this.evict(index, data.byteLength)
+
+      const file = `${bookId}-${hash.slice(0, 16)}.bin`
+      const tmpPath = join(this.dir, `${file}.tmp`)
+      await fs.writeFile(tmpPath, this.encrypt(data))
+      await fs.rename(tmpPath, join(this.dir, file))
+
+      const now = Date.now()
+      index.entries[bookId] = {
+        ...book,
+        hash,
+        size: data.byteLength,
+        file,
+        cachedAt: now,
+        lastAccess: now
+      }
+      await this.saveIndex()
+      console.log(`[BookCache] Cached book ${bookId} (${data.byteLength} bytes)`)
+    })
+  }
+
+  // Refreshes what the offline shelf shows for a book that's already cached
+  async updateMeta(book: OfflineBookMeta): Promise<void> {
+    return this.exclusive(async () => {
+      const index = await this.loadIndex()
+      const entry = index.entries[book.bookId]
+      if (!entry) return
+      Object.assign(entry, book)
+      await this.saveIndex()
+    })
+  }
+
+  async remove(bookId: number): Promise<void> {
+    return this.exclusive(async () => {
+      const index = await this.loadIndex()
+      await this.removeEntry(index, bookId)
+      await this.saveIndex()
+    })
+  }
+
+  async clear(): Promise<void> {
+    return this.exclusive(async () => {
+      const index = await this.loadIndex()
+      for (const bookId of Object.keys(index.entries)) {
+        await this.removeEntry(index, Number(bookId))
+      }
+      await this.saveIndex()
+    })
+  }
+
+  async list(): Promise<CachedBookInfo[]> {
+    return this.exclusive(async () => {
+      const index = await this.loadIndex()
+      return Object.values(index.entries).map(
+        ({ bookId, title, author, coverUrl, size, cachedAt, lastAccess }) => ({
+          bookId,
+          title,
+          author,
+          coverUrl,
+          size,
+          cachedAt,
+          lastAccess
+        })
+      )
+    })
+  }
+
+  async stats(): Promise<BookCacheStats> {
+    return this.exclusive(async () => {
+      const index = await this.loadIndex()
+      const entries = Object.values(index.entries)
+      return {
+        totalBytes: entries.reduce((sum, entry) => sum + entry.size, 0),
+        maxBytes: index.maxBytes,
+        count: entries.length
+      }
+    })
+  }
+
+  async setMaxBytes(maxBytes: number): Promise<void> {
+    return this.exclusive(async () => {
+      const index = await this.loadIndex()
+      index.maxBytes = maxBytes
+      await this.evict(index, 0)
+      await this.saveIndex()
+    })
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task)
+    this.queue = run.catch(() => undefined)
+    return run
+  }
+
+  // Drop least recently used books until `incoming` more bytes fit
+  private async evict(index: CacheIndex, incoming: number): Promise<void> {
+    const entries = Object.values(index.entries).sort((a, b) => a.lastAccess - b.lastAccess)
+    let total = entries.reduce((sum, entry) => sum + entry.size, 0)
+
+    for (const entry of entries) {
+      if (total + incoming <= index.maxBytes) break
+      console.log(`[BookCache] Evicting book ${entry.bookId} (${entry.size} bytes)`)
+      await this.removeEntry(index, entry.bookId)
+      total -= entry.size
+    }
+  }
+
+  private async removeEntry(index: CacheIndex, bookId: number): Promise<void> {
+    const entry = index.entries[bookId]
+    if (!entry) return
+    delete index.entries[bookId]
+    await fs.rm(join(this.dir, entry.file), { force: true })
+  }
+
+  // Loads the key along with the index, so nothing is read or written
+  // without it
+  private async loadIndex(): Promise<CacheIndex> {
+    if (this.index) return this.index
+
+    await fs.mkdir(this.dir, { recursive: true })
+    let index: CacheIndex
+    try {
+      index = JSON.parse(await fs.readFile(this.indexPath, 'utf8')) as CacheIndex
+    } catch {
+      index = { version: 1, maxBytes: DEFAULT_MAX_BYTES, entries: {} }
+    }
+    if (!(await this.loadKey())) await this.dropUnreadable(index)
+    this.index = index
+    return index
+  }
+
+  private async saveIndex(): Promise<void> {
+    if (!this.index) return
+    const tmpPath = `${this.indexPath}.tmp`
+    await fs.writeFile(tmpPath, JSON.stringify(this.index))
+    await fs.rename(tmpPath, this.indexPath)
+  }
+
+  // Resolves to false when a new key had to be made, which can't read any
+  // book cached before
+  private async loadKey(): Promise<boolean> {
+    let contents: string
+    try {
+      contents = await fs.readFile(this.keyPath, 'utf8')
+    } catch {
+      // No key yet: create one
+      await this.createKey()
+      return false
+    }
+
+    try {
+      const stored = JSON.parse(contents) as StoredKey
+      const raw = Buffer.from(stored.key, 'base64')
+      this.key = stored.encrypted ? Buffer.from(safeStorage.decryptString(raw), 'base64') : raw
+      return true
+    } catch (error) {
+      console.error('[BookCache] Cache key unreadable, starting over with a new one:', error)
+      await this.createKey()
+      return false
+    }
+  }
+
+  private async createKey(): Promise<void> {
+    const key = randomBytes(32)
+    const encrypted = safeStorage.isEncryptionAvailable()
+    if (!encrypted) {
+      console.warn('[BookCache] safeStorage unavailable, storing cache key unprotected')
+    }
+    const stored: StoredKey = {
+      encrypted,
+      key: encrypted
+        ? safeStorage.encryptString(key.toString('base64')).toString('base64')
+        : key.toString('base64')
+    }
+    await fs.writeFile(this.keyPath, JSON.stringify(stored))
+    this.key = key
+  }
+
+  // Deletes every cached book, including files the index lost track of
+  private async dropUnreadable(index: CacheIndex): Promise<void> {
+    const files = (await fs.readdir(this.dir)).filter(
+      (file) => file.endsWith('.bin') || file.endsWith('.bin.tmp')
+    )
+    if (files.length === 0 && Object.keys(index.entries).length === 0) return
+    console.warn(`[BookCache] Deleting ${files.length} books encrypted with the old key`)
+    index.entries = {}
+    for (const file of files) {
+      await fs.rm(join(this.dir, file), { force: true })
+    }
+    this.index = index
+    await this.saveIndex()
+  }
+
+  private getKey(): Buffer {
+    if (!this.key) throw new Error('Cache key not loaded')
+    return this.key
+  }
+
+  private encrypt(data: Uint8Array): Buffer {
+    const iv = randomBytes(IV_LENGTH)
+    const cipher = createCipheriv('aes-256-gcm', this.getKey(), iv)
+    const ciphertext = Buffer.concat([cipher.update(data), cipher.final()])
+    return Buffer.concat([iv, cipher.getAuthTag(), ciphertext])
+  }
+
+  private decrypt(payload: Buffer): Uint8Array {
+    const iv = payload.subarray(0, IV_LENGTH)
+    const tag = payload.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH)
+    const decipher = createDecipheriv('aes-256-gcm', this.getKey(), iv)
+    decipher.setAuthTag(tag)
+    const plain = Buffer.concat([
+      decipher.update(payload.subarray(IV_LENGTH + TAG_LENGTH)),
+      decipher.final()
+    ])
+    return new Uint8Array(plain.buffer, plain.byteOffset, plain.byteLength)
+  }
+
+  private hash(data: Uint8Array): string {
+    return createHash('sha256').update(data).digest('hex')
+  }
+}
@@ -0,0 +1,59 @@
+import { app, safeStorage } from 'electron'
+import { promises as fs, readFileSync } from 'fs'
+import { join } from 'path'
+
+// Login credentials, kept in the main process and encrypted at rest with the
+// OS keychain (safeStorage). The renderer never reads the token back: the
+// main process adds it to API requests itself.
+
+export interface Credentials {
+  token: string
+  userId: string
+}
+
+export class CredentialStore {
+  private static instance: CredentialStore
+  private readonly path = join(app.getPath('userData'), 'credentials.bin')
+  // undefined until the file has been read
+  private credentials: Credentials | null | undefined = undefined
+
+  static getInstance(): CredentialStore {
+    if (!CredentialStore.instance) {
+      CredentialStore.instance = new CredentialStore()
+    }
+    return CredentialStore.instance
+  }
+
+  get(): Credentials | null {
+    if (this.credentials === undefined) {
+      this.credentials = null
+      try {
+        if (safeStorage.isEncryptionAvailable()) {
+          const decrypted = safeStorage.decryptString(readFileSync(this.path))
+          this.credentials = JSON.parse(decrypted) as Credentials
+        }
+      } catch {
+        // Missing, or encrypted with a key we no longer have: logged out
+      }
+    }
+    return this.credentials
+  }
+
+  async set(credentials: Credentials): Promise<void> {
+    this.credentials = credentials
+    if (!safeStorage.isEncryptionAvailable()) {
+      // Never write the token in plain text; it lasts until the app quits
+      console.warn('[Credentials] Encryption unavailable, keeping session in memory only')
+      return
+    }
+    const encrypted = safeStorage.encryptString(JSON.stringify(credentials))
+    const tempPath = `${this.path}.tmp`
+    await fs.writeFile(tempPath, encrypted, { mode: 0o600 })
+    await fs.rename(tempPath, this.path)
+  }
+
+  async clear(): Promise<void> {
+    this.credentials = null
+    await fs.rm(this.path, { force: true })
+  }
+}
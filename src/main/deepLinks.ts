@@ -0,0 +1,45 @@
+import { app } from 'electron'
+import { resolve } from 'path'
+
+// booksiam:// links, e.g. booksiam://book/123 or booksiam://read/123/45.
+// They are turned into the renderer's route paths ('/book/123'); the
+// renderer decides whether a path is a screen it knows.
+
+export const DEEP_LINK_PROTOCOL = 'booksiam'
+
+const SCHEME = `${DEEP_LINK_PROTOCOL}://`
+
+export function registerProtocolClient(): void {
+  // When run through electron (development), Windows has to be told which
+  // script to launch as well
+  const registered =
+    process.defaultApp && process.argv.length >= 2
+      ? app.setAsDefaultProtocolClient(DEEP_LINK_PROTOCOL, process.execPath, [resolve(process.argv[1])])
+      : app.setAsDefaultProtocolClient(DEEP_LINK_PROTOCOL)
+  if (!registered) {
+    console.warn(`[DeepLinks] Could not register the ${SCHEME} protocol`)
+  }
+}
+
+// Windows and Linux pass the link on the command line
+export function findDeepLink(argv: string[]): string | undefined {
+  return argv.find((arg) => arg.toLowerCase().startsWith(SCHEME))
+}
+
+// booksiam://book/123 -> /book/123; null when it isn't one of our links
+export function deepLinkToPath(link: string): string | null {
+  let url: URL
+  try {
+    url = new URL(link)
+  } catch {
+    return null
+  }
+  if (url.protocol !== `${DEEP_LINK_PROTOCOL}:`) return null
+
+  // The first segment parses as the host: booksiam://book/123
+  const segments = [url.hostname, ...url.pathname.split('/')].filter(Boolean)
+  if (segments.length === 0 || !segments.every((s) => /^[a-z0-9-]+$/i.test(s))) {
+    return null
+  }
+  return `/${segments.join('/').toLowerCase()}`
+}
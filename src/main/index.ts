@@ -1,9 +1,18 @@
-import { app, shell, BrowserWindow, ipcMain, systemPreferences, desktopCapturer, dialog } from 'electron'
+import { app, shell, BrowserWindow, systemPreferences, desktopCapturer, dialog, session } from 'electron'
 import { join } from 'path'
+import { pathToFileURL } from 'url'
 import { electronApp, optimizer, is } from '@electron-toolkit/utils'
 import icon from '../../resources/icon.png?asset'
 import { exec } from 'child_process'
 import { promisify } from 'util'
+import { BookCache } from './bookCache'
+import { SettingsStore } from './settingsStore'
+import { CredentialStore } from './credentialStore'
+import { handle, onMessage, sendToRenderer } from './ipc'
+import { API_ORIGIN, authHeaders, performApiRequest } from './apiProxy'
+import { deepLinkToPath, findDeepLink, registerProtocolClient } from './deepLinks'
+import { DownloadCancelledError, PdfDownloader } from './pdfDownloader'
+import { PdfStreams } from './pdfStreams'
 
 const execAsync = promisify(exec)
 
@@ -11,6 +20,8 @@ const execAsync = promisify(exec)
 let mainWindow: BrowserWindow | null = null
 let screenProtectionActive = false
 let screenCaptureCheckInterval: NodeJS.Timeout | null = null
+// Set once the app itself is quitting, not just the window closing
+let isQuitting = false
 
 // Development mode detection
 const isDevelopment = process.env.NODE_ENV === 'development' || is.dev
@@ -276,6 +287,8 @@ class ScreenCaptureProtection {
     // Stop monitoring to prevent multiple dialogs
     this.stopMonitoring()
 
+    if (mainWindow) sendToRenderer(mainWindow.webContents, 'screen-capture-detected')
+
     // Show dialog to user explaining why the app is closing
     const detectedInfo = this.detectedProcess ? `\n\nDetected process: ${this.detectedProcess}` : ''
     const result = await dialog.showMessageBox(mainWindow!, {
@@ -303,6 +316,15 @@ class ScreenCaptureProtection {
   }
 }
 
+// Whether a URL is part of the app rather than something it was sent to
+function isAppUrl(url: string): boolean {
+  const rendererUrl = process.env['ELECTRON_RENDERER_URL']
+  if (is.dev && rendererUrl) {
+    return new URL(url).origin === new URL(rendererUrl).origin
+  }
+  return url.startsWith(pathToFileURL(join(__dirname, '../renderer/index.html')).href)
+}
+
 function createWindow(): void {
   // Create the browser window.
   mainWindow = new BrowserWindow({
@@ -313,10 +335,10 @@ function createWindow(): void {
     ...(process.platform === 'linux' ? { icon } : {}),
     webPreferences: {
       preload: join(__dirname, '../preload/index.js'),
-      sandbox: false,
-      webSecurity: false,
-      allowRunningInsecureContent: true,
-      experimentalFeatures: true
+      sandbox: true,
+      contextIsolation: true,
+      nodeIntegration: false,
+      webSecurity: true
     }
   })
 
@@ -342,8 +364,61 @@ function createWindow(): void {
     }
   })
 
+  // Give the renderer a chance to persist state (e.g. reading progress)
+  // before the window goes away. It answers with 'app-closing-done'.
+  let closeAcknowledged = false
+  mainWindow.on('close', (event) => {
+    if (closeAcknowledged || !mainWindow) return
+    event.preventDefault()
+
+    const finishClose = (): void => {
+      if (closeAcknowledged) return
+      closeAcknowledged = true
+      clearTimeout(closeTimeout)
+      stopListening()
+      // Holding the close back cancelled any quit in progress, so quit again;
+      // on macOS closing only the window would leave the app running
+      if (isQuitting) app.quit()
+      else mainWindow?.close()
+    }
+    const closeTimeout = setTimeout(() => {
+      console.warn('[Main] Renderer did not acknowledge close in time')
+      finishClose()
+    }, 3000)
+    const stopListening = onMessage('app-closing-done', finishClose)
+    sendToRenderer(mainWindow.webContents, 'app-closing')
+  })
+
+  // On macOS the app outlives its window; nothing may touch the old one
+  mainWindow.on('closed', () => {
+    mainWindow = null
+  })
+
+  // The window only ever shows the app itself. Hash changes (the router)
+  // don't count as navigation; links go through the open handler below.
+  const blockForeignNavigation = (event: Electron.Event, url: string): void => {
+    if (!isAppUrl(url)) {
+      event.preventDefault()
+      console.warn('[Main] Blocked navigation to:', url)
+    }
+  }
+  mainWindow.webContents.on('will-navigate', blockForeignNavigation)
+  mainWindow.webContents.on('will-redirect', blockForeignNavigation)
+  mainWindow.webContents.on('will-attach-webview', (event) => event.preventDefault())
+
+  // Links opened from the renderer (including PDF link annotations) go to
+  // the system browser, and only for web and mail URLs
   mainWindow.webContents.setWindowOpenHandler((details) => {
-    shell.openExternal(details.url)
+    try {
+      const { protocol } = new URL(details.url)
+      if (['http:', 'https:', 'mailto:'].includes(protocol)) {
+        shell.openExternal(details.url)
+      } else {
+        console.warn('[Main] Blocked opening URL:', details.url)
+      }
+    } catch {
+      console.warn('[Main] Blocked opening invalid URL:', details.url)
+    }
     return { action: 'deny' }
   })
 
@@ -356,12 +431,60 @@ function createWindow(): void {
   }
 }
 
+function focusMainWindow(): void {
+  if (!mainWindow) return
+  if (mainWindow.isMinimized()) mainWindow.restore()
+  mainWindow.focus()
+}
+
+// A booksiam:// link waits here until the renderer takes it: the window may
+// still be loading, or nobody may be logged in yet
+let pendingDeepLink: string | null = null
+
+function openDeepLink(link: string | undefined): void {
+  if (!link) return
+  const path = deepLinkToPath(link)
+  if (!path) {
+    console.warn('[DeepLinks] Ignoring link:', link)
+    return
+  }
+  pendingDeepLink = path
+  // The new window's renderer takes the link once it has loaded
+  if (!mainWindow && app.isReady()) {
+    createWindow()
+    return
+  }
+  focusMainWindow()
+  if (mainWindow) sendToRenderer(mainWindow.webContents, 'deep-link')
+}
+
+// Only one copy of the app runs. Launching it again, e.g. by opening a link,
+// hands the link over to the running copy instead.
+if (!app.requestSingleInstanceLock()) {
+  app.exit(0)
+}
+
+app.on('second-instance', (_event, argv) => {
+  focusMainWindow()
+  openDeepLink(findDeepLink(argv))
+})
+
+// macOS delivers links as an event, including the one that launched the app
+app.on('open-url', (event, url) => {
+  event.preventDefault()
+  openDeepLink(url)
+})
+
+// Windows and Linux pass the launching link on the command line
+openDeepLink(findDeepLink(process.argv))
+
 // This method will be called when Electron has finished
 // initialization and is ready to create browser windows.
 // Some APIs can only be used after this event occurs.
 app.whenReady().then(() => {
   // Set app user model id for windows
   electronApp.setAppUserModelId('com.electron')
+  registerProtocolClient()
 
   // Default open or close DevTools by F12 in development
   // and ignore CommandOrControl + R in production.
@@ -370,31 +493,194 @@ app.whenReady().then(() => {
     optimizer.watchWindowShortcuts(window)
   })
 
-  // IPC test
-  ipcMain.on('ping', () => console.log('pong'))
-
   // IPC handlers for PDF fetching
-  ipcMain.handle('fetch-pdf', async (_event, url: string) => {
+  // When the book is given the offline cache is used first and filled after download
+  const bookCache = BookCache.getInstance();
+  const downloader = PdfDownloader.getInstance();
+
+  handle('fetch-pdf', async (url, book, downloadId) => {
     try {
+      if (book) {
+        const cached = await bookCache.get(book.bookId);
+        if (cached) {
+          console.log(`[BookCache] Serving book ${book.bookId} from cache`);
+          return cached;
+        }
+      }
+
       console.log('Fetching PDF from:', url);
-      const response = await fetch(url);
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+      const data = await downloader.download(url, {
+        key: book ? String(book.bookId) : url,
+        downloadId,
+        onProgress: downloadId
+          ? (status): void => {
+              if (mainWindow) sendToRenderer(mainWindow.webContents, 'pdf-download-progress', { downloadId, ...status });
+            }
+          : undefined
+      });
+      if (book) {
+        bookCache.put(book, data).catch((error) => {
+          console.error('[BookCache] Error caching book:', error);
+        });
       }
-      const arrayBuffer = await response.arrayBuffer();
-      return new Uint8Array(arrayBuffer);
+      return data;
     } catch (error) {
-      console.error('Error fetching PDF:', error);
+      if (error instanceof DownloadCancelledError) {
+        console.log(`Download ${downloadId} cancelled`);
+      } else {
+        console.error('Error fetching PDF:', error);
+      }
       throw error;
     }
   });
 
+  handle('cancel-pdf-download', (downloadId) => {
+    return downloader.cancel(downloadId);
+  });
+
+  // Reading a book in byte ranges while the rest downloads in the background
+  const pdfStreams = PdfStreams.getInstance();
+
+  handle('pdf-stream-open', async (url, book) => {
+    return await pdfStreams.open(url, book);
+  });
+
+  handle('pdf-stream-read', async (streamId, begin, end) => {
+    return await pdfStreams.read(streamId, begin, end);
+  });
+
+  handle('pdf-stream-close', (streamId) => {
+    pdfStreams.close(streamId);
+  });
+
+  // Read a book from the offline cache only (null when not cached)
+  handle('read-offline-book', async (bookId) => {
+    return await bookCache.get(bookId);
+  });
+
+  // Download a book for offline reading
+  handle('download-book-offline', async (book, url) => {
+    try {
+      if (await bookCache.has(book.bookId)) {
+        await bookCache.updateMeta(book);
+      } else {
+        await bookCache.put(book, await downloader.download(url, { key: String(book.bookId) }));
+      }
+      return { success: true };
+    } catch (error) {
+      console.error('[BookCache] Error downloading book for offline use:', error);
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+
+  // List books available offline
+  handle('get-offline-books', async () => {
+    return await bookCache.list();
+  });
+
+  // Remove a book's offline copy
+  handle('remove-offline-book', async (bookId) => {
+    await bookCache.remove(bookId);
+    return { success: true };
+  });
+
+  // Offline cache management for the settings page
+  handle('get-offline-cache-stats', async () => {
+    return await bookCache.stats();
+  });
+
+  handle('clear-offline-cache', async () => {
+    await bookCache.clear();
+    return { success: true };
+  });
+
+  handle('set-offline-cache-limit', async (maxBytes) => {
+    await bookCache.setMaxBytes(maxBytes);
+    return { success: true };
+  });
+
+  // Persisted app settings
+  const settingsStore = SettingsStore.getInstance();
+
+  handle('get-settings', async () => {
+    return settingsStore.get();
+  });
+
+  handle('set-settings', async (patch) => {
+    return await settingsStore.set(patch);
+  });
+
+  // Login credentials. The renderer can store and clear them and ask whether
+  // it's signed in, but can't read the token back.
+  const credentialStore = CredentialStore.getInstance();
+
+  handle('auth-set-credentials', async (token, userId) => {
+    await credentialStore.set({ token, userId });
+  });
+
+  handle('auth-clear-credentials', async () => {
+    await credentialStore.clear();
+  });
+
+  handle('auth-get-session', async () => {
+    const credentials = credentialStore.get();
+    return { authenticated: credentials !== null, userId: credentials?.userId ?? null };
+  });
+
+  // Trade the stored token for a fresh one. Resolves to false when the
+  // backend won't renew it and the user has to log in again.
+  handle('auth-refresh', async () => {
+    const credentials = credentialStore.get();
+    if (!credentials) return false;
+    try {
+      const response = await fetch(`${API_ORIGIN}/refresh-token`, {
+        method: 'POST',
+        headers: authHeaders()
+      });
+      if (!response.ok) return false;
+      const { token } = await response.json();
+      if (typeof token !== 'string' || !token) return false;
+      await credentialStore.set({ ...credentials, token });
+      return true;
+    } catch (error) {
+      console.error('[Credentials] Token refresh failed:', error);
+      return false;
+    }
+  });
+
+  // The renderer's backend requests; signed here so the token never sits in it
+  handle('api-request', (request) => performApiRequest(request));
+
+  // Only fullscreen (reader) and copying text (books that allow it) are
+  // granted; any other permission request is refused without a prompt
+  const allowedPermissions = new Set(['fullscreen', 'clipboard-sanitized-write']);
+  session.defaultSession.setPermissionRequestHandler((_webContents, permission, callback) => {
+    const allowed = allowedPermissions.has(permission);
+    if (!allowed) console.warn('[Main] Denied permission request:', permission);
+    callback(allowed);
+  });
+  session.defaultSession.setPermissionCheckHandler((_webContents, permission) =>
+    allowedPermissions.has(permission)
+  );
+
+  // Version info for the settings page
+  handle('get-app-info', async () => {
+    return {
+      name: app.getName(),
+      version: app.getVersion(),
+      electron: process.versions.electron,
+      chrome: process.versions.chrome,
+      platform: process.platform,
+      arch: process.arch
+    };
+  });
+
   // IPC handlers for screen protection
   // Screen protection IPC handlers
   const screenProtection = ScreenCaptureProtection.getInstance();
 
   // Check platform and permissions
-  ipcMain.handle('check-platform-info', async () => {
+  handle('check-platform-info', async () => {
     return {
       platform: process.platform,
       arch: process.arch,
@@ -403,7 +689,7 @@ app.whenReady().then(() => {
   });
 
   // Check macOS screen recording permission
-  ipcMain.handle('check-screen-permission', async () => {
+  handle('check-screen-permission', async () => {
     if (process.platform === 'darwin') {
       return await screenProtection.checkMacOSScreenRecordingPermission();
     }
@@ -411,7 +697,7 @@ app.whenReady().then(() => {
   });
 
   // Request macOS screen recording permission
-  ipcMain.handle('request-screen-permission', async () => {
+  handle('request-screen-permission', async () => {
     if (process.platform === 'darwin') {
       return await screenProtection.requestMacOSScreenRecordingPermission();
     }
@@ -419,7 +705,7 @@ app.whenReady().then(() => {
   });
 
   // Start screen protection monitoring
-  ipcMain.handle('start-screen-protection', async () => {
+  handle('start-screen-protection', async () => {
     try {
       screenProtectionActive = true;
       screenProtection.startMonitoring();
@@ -432,7 +718,7 @@ app.whenReady().then(() => {
   });
 
   // Stop screen protection monitoring
-  ipcMain.handle('stop-screen-protection', async () => {
+  handle('stop-screen-protection', async () => {
     try {
       screenProtectionActive = false;
       screenProtection.stopMonitoring();
@@ -445,15 +731,23 @@ app.whenReady().then(() => {
   });
 
   // Get screen protection status
-  ipcMain.handle('get-screen-protection-status', async () => {
+  handle('get-screen-protection-status', async () => {
     return {
       active: screenProtectionActive,
       platform: process.platform
     };
   });
 
+  // Hands over the last deep link once; the renderer asks on startup and
+  // whenever it's told about a new one
+  handle('deep-link-take', () => {
+    const path = pendingDeepLink;
+    pendingDeepLink = null;
+    return path;
+  });
+
   // Handle app quit request
-  ipcMain.on('app-quit', () => {
+  onMessage('app-quit', () => {
     console.log('[Main] App quit requested');
     app.quit();
   });
@@ -467,6 +761,10 @@ app.whenReady().then(() => {
   })
 })
 
+app.on('before-quit', () => {
+  isQuitting = true
+})
+
 // Quit when all windows are closed, except on macOS. There, it's common
 // for applications and their menu bar to stay active until the user quits
 // explicitly with Cmd + Q.
@@ -0,0 +1,255 @@
+import { ipcMain, IpcMainEvent, WebContents } from 'electron'
+import type {
+  ApiRequest,
+  EventChannel,
+  EventChannels,
+  InvokeArgs,
+  InvokeChannel,
+  InvokeResult,
+  OfflineBookMeta,
+  SendChannel,
+  SendChannels
+} from '../shared/ipc'
+
+// Main-process side of the IPC contract in src/shared/ipc.ts. Arguments
+// coming from the renderer are checked before a handler sees them.
+
+export class IpcArgumentError extends Error {
+  constructor(channel: string, message: string) {
+    super(`Invalid arguments for '${channel}': ${message}`)
+    this.name = 'IpcArgumentError'
+  }
+}
+
+type Validator<C extends InvokeChannel> = (args: unknown[], channel: C) => InvokeArgs<C>
+
+function expectCount(args: unknown[], channel: string, min: number, max = min): void {
+  if (args.length < min || args.length > max) {
+    throw new IpcArgumentError(
+      channel,
+      `expected ${min === max ? min : `${min}-${max}`} arguments, got ${args.length}`
+    )
+  }
+}
+
+function expectString(value: unknown, channel: string, name: string): string {
+  if (typeof value !== 'string' || !value) {
+    throw new IpcArgumentError(channel, `${name} must be a non-empty string`)
+  }
+  return value
+}
+
+function expectBookId(value: unknown, channel: string): number {
+  if (typeof value !== 'number' || !Number.isSafeInteger(value) || value <= 0) {
+    throw new IpcArgumentError(channel, 'bookId must be a positive integer')
+  }
+  return value
+}
+
+function expectUrl(value: unknown, channel: string): string {
+  const url = expectString(value, channel, 'url')
+  let protocol: string
+  try {
+    protocol = new URL(url).protocol
+  } catch {
+    throw new IpcArgumentError(channel, 'url is not a valid URL')
+  }
+  if (protocol !== 'https:' && protocol !== 'http:') {
+    throw new IpcArgumentError(channel, 'url must be http(s)')
+  }
+  return url
+}
+
+function expectByteOffset(value: unknown, channel: string, name: string): number {
+  if (typeof value !== 'number' || !Number.isSafeInteger(value) || value < 0) {
+    throw new IpcArgumentError(channel, `${name} must be a non-negative integer`)
+  }
+  return value
+}
+
+function expectRecord(value: unknown, channel: string, name: string): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new IpcArgumentError(channel, `${name} must be an object`)
+  }
+  return value as Record<string, unknown>
+}
+
+// Shown on the offline shelf only, but stored: keep it to sensible sizes
+const MAX_META_LENGTH = 2048
+
+function expectMetaText(value: unknown, channel: string, name: string): string {
+  if (typeof value !== 'string' || value.length > MAX_META_LENGTH) {
+    throw new IpcArgumentError(
+      channel,
+      `${name} must be a string of at most ${MAX_META_LENGTH} characters`
+    )
+  }
+  return value
+}
+
+function expectBookMeta(value: unknown, channel: string): OfflineBookMeta {
+  const { bookId, title, author, coverUrl } = expectRecord(value, channel, 'book')
+  return {
+    bookId: expectBookId(bookId, channel),
+    title: expectMetaText(title, channel, 'title'),
+    author: expectMetaText(author, channel, 'author'),
+    coverUrl: coverUrl === undefined ? undefined : expectMetaText(coverUrl, channel, 'coverUrl')
+  }
+}
+
+const apiMethods: ApiRequest['method'][] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE']
+
+function expectApiRequest(value: unknown, channel: string): ApiRequest {
+  const request = expectRecord(value, channel, 'request')
+  const { method, url, headers, body, timeout } = request
+  if (!apiMethods.includes(method as ApiRequest['method'])) {
+    throw new IpcArgumentError(channel, `unsupported method ${String(method)}`)
+  }
+  const headerRecord = expectRecord(headers, channel, 'headers')
+  if (!Object.values(headerRecord).every((header) => typeof header === 'string')) {
+    throw new IpcArgumentError(channel, 'header values must be strings')
+  }
+  if (body !== undefined && typeof body !== 'string') {
+    throw new IpcArgumentError(channel, 'body must be a string')
+  }
+  if (timeout !== undefined && (typeof timeout !== 'number' || !(timeout > 0))) {
+    throw new IpcArgumentError(channel, 'timeout must be a positive number')
+  }
+  return {
+    method: method as ApiRequest['method'],
+    url: expectUrl(url, channel),
+    headers: headerRecord as Record<string, string>,
+    body,
+    timeout
+  }
+}
+
+const noArgs = (args: unknown[], channel: string): [] => {
+  expectCount(args, channel, 0)
+  return []
+}
+
+const bookIdOnly = (args: unknown[], channel: string): [number] => {
+  expectCount(args, channel, 1)
+  return [expectBookId(args[0], channel)]
+}
+
+// One validator per channel; the type makes sure none is forgotten
+const validators: { [C in InvokeChannel]: Validator<C> } = {
+  'fetch-pdf': (args, channel) => {
+    // invoke() passes the optional arguments along as undefined when they're left out
+    expectCount(args, channel, 1, 3)
+    const book = args[1] === undefined ? undefined : expectBookMeta(args[1], channel)
+    const downloadId =
+      args[2] === undefined ? undefined : expectString(args[2], channel, 'downloadId')
+    return [expectUrl(args[0], channel), book, downloadId]
+  },
+  'cancel-pdf-download': (args, channel) => {
+    expectCount(args, channel, 1)
+    return [expectString(args[0], channel, 'downloadId')]
+  },
+  'pdf-stream-open': (args, channel) => {
+    expectCount(args, channel, 1, 2)
+    const book = args[1] === undefined ? undefined : expectBookMeta(args[1], channel)
+    return [expectUrl(args[0], channel), book]
+  },
+  'pdf-stream-read': (args, channel) => {
+    expectCount(args, channel, 3)
+    const begin = expectByteOffset(args[1], channel, 'begin')
+    const end = expectByteOffset(args[2], channel, 'end')
+    if (end <= begin) throw new IpcArgumentError(channel, 'end must be after begin')
+    return [expectString(args[0], channel, 'streamId'), begin, end]
+  },
+  'pdf-stream-close': (args, channel) => {
+    expectCount(args, channel, 1)
+    return [expectString(args[0], channel, 'streamId')]
+  },
+  'read-offline-book': bookIdOnly,
+  'download-book-offline': (args, channel) => {
+    expectCount(args, channel, 2)
+    return [expectBookMeta(args[0], channel), expectUrl(args[1], channel)]
+  },
+  'get-offline-books': noArgs,
+  'remove-offline-book': bookIdOnly,
+  'get-offline-cache-stats': noArgs,
+  'clear-offline-cache': noArgs,
+  'set-offline-cache-limit': (args, channel) => {
+    expectCount(args, channel, 1)
+    const [maxBytes] = args
+    if (typeof maxBytes !== 'number' || !Number.isFinite(maxBytes) || maxBytes <= 0) {
+      throw new IpcArgumentError(channel, 'maxBytes must be a positive number')
+    }
+    return [maxBytes]
+  },
+  'get-settings': noArgs,
+  'set-settings': (args, channel) => {
+    expectCount(args, channel, 1)
+    return [expectRecord(args[0], channel, 'patch')]
+  },
+  'auth-set-credentials': (args, channel) => {
+    expectCount(args, channel, 2)
+    return [expectString(args[0], channel, 'token'), expectString(args[1], channel, 'userId')]
+  },
+  'auth-clear-credentials': noArgs,
+  'auth-get-session': noArgs,
+  'auth-refresh': noArgs,
+  'get-app-info': noArgs,
+  'check-platform-info': noArgs,
+  'check-screen-permission': noArgs,
+  'request-screen-permission': noArgs,
+  'start-screen-protection': noArgs,
+  'stop-screen-protection': noArgs,
+  'get-screen-protection-status': noArgs,
+  'api-request': (args, channel) => {
+    expectCount(args, channel, 1)
+    return [expectApiRequest(args[0], channel)]
+  },
+  'deep-link-take': noArgs
+}
+
+// Registers the handler for a contract channel. Invalid arguments reject the
+// renderer's call without reaching the handler.
+export function handle<C extends InvokeChannel>(
+  channel: C,
+  handler: (...args: InvokeArgs<C>) => InvokeResult<C> | Promise<InvokeResult<C>>
+): void {
+  const validate = validators[channel] as Validator<C>
+  ipcMain.handle(channel, (_event, ...args: unknown[]) => {
+    let validArgs: InvokeArgs<C>
+    try {
+      validArgs = validate(args, channel)
+    } catch (error) {
+      console.warn('[IPC]', error instanceof Error ? error.message : error)
+      throw error
+    }
+    return handler(...validArgs)
+  })
+}
+
+// Listens for a message the renderer sends without waiting for an answer.
+// Returns a function that stops listening.
+export function onMessage<C extends SendChannel>(
+  channel: C,
+  listener: (event: IpcMainEvent, ...args: SendChannels[C]) => void
+): () => void {
+  const wrapped = (event: IpcMainEvent, ...args: unknown[]): void => {
+    // None of the messages carry anything yet
+    if (args.length > 0) {
+      console.warn(`[IPC] Ignoring '${channel}' with unexpected arguments`)
+      return
+    }
+    listener(event, ...(args as SendChannels[C]))
+  }
+  ipcMain.on(channel, wrapped)
+  return () => {
+    ipcMain.removeListener(channel, wrapped)
+  }
+}
+
+export function sendToRenderer<C extends EventChannel>(
+  contents: WebContents,
+  channel: C,
+  ...args: EventChannels[C]
+): void {
+  contents.send(channel, ...args)
+}
@@ -0,0 +1,232 @@
+import { checkBookResponse, checkBookSize, checkBookUrl, RequestPolicyError } from './requestPolicy'
+
+// Streams book PDFs into memory, reporting progress as it goes. When a
+// download breaks off it carries on from where it stopped with an HTTP range
+// request, both within one download and the next time the same book is
+// opened. The part received so far only ever lives in memory: books are not
+// written to disk unencrypted.
+
+const PROGRESS_INTERVAL_MS = 250
+// Resumes after a dropped connection before giving up
+const MAX_RESUME_ATTEMPTS = 3
+// Unfinished downloads kept around for resuming; books can be large
+const MAX_PARTIALS = 2
+
+export interface DownloadStatus {
+  receivedBytes: number
+  // null when the server doesn't say
+  totalBytes: number | null
+  bytesPerSecond: number
+}
+
+export interface DownloadOptions {
+  // Identifies the file across attempts; download URLs are signed and change,
+  // so the book ID is used when there is one
+  key?: string
+  // Lets the download be cancelled with cancel()
+  downloadId?: string
+  onProgress?: (status: DownloadStatus) => void
+}
+
+export class DownloadCancelledError extends Error {
+  constructor() {
+    super('Download cancelled')
+    this.name = 'DownloadCancelledError'
+  }
+}
+
+// The server refused; trying again won't help
+class DownloadHttpError extends Error {
+  constructor(status: number) {
+    super(`HTTP error! status: ${status}`)
+    this.name = 'DownloadHttpError'
+  }
+}
+
+interface PartialDownload {
+  chunks: Uint8Array[]
+  receivedBytes: number
+  totalBytes: number | null
+  // ETag or Last-Modified, sent as If-Range so a changed file starts over
+  validator: string | null
+}
+
+const emptyPartial = (): PartialDownload => ({
+  chunks: [],
+  receivedBytes: 0,
+  totalBytes: null,
+  validator: null
+})
+
+// "bytes 100-199/1000" -> { start: 100, total: 1000 }; total is null for "/*"
+export const parseContentRange = (
+  header: string | null
+): { start: number; total: number | null } | null => {
+  const match = header?.match(/^bytes (\d+)-\d+\/(\d+|\*)$/)
+  if (!match) return null
+  return { start: Number(match[1]), total: match[2] === '*' ? null : Number(match[2]) }
+}
+
+// "bytes 100-199/1000" -> 1000
+export const parseContentRangeTotal = (header: string | null): number | null =>
+  parseContentRange(header)?.total ?? null
+
+// ETag or Last-Modified, to send as If-Range. Weak ETags can't be used there.
+export const rangeValidator = (response: Response): string | null => {
+  const etag = response.headers.get('etag')
+  return etag && !etag.startsWith('W/') ? etag : response.headers.get('last-modified')
+}
+
+export class PdfDownloader {
+  private static instance: PdfDownloader
+  private active = new Map<string, AbortController>()
+  private partials = new Map<string, PartialDownload>()
+
+  static getInstance(): PdfDownloader {
+    if (!PdfDownloader.instance) {
+      PdfDownloader.instance = new PdfDownloader()
+    }
+    return PdfDownloader.instance
+  }
+
+  // Resolves to false when there was no such download running
+  cancel(downloadId: string): boolean {
+    const controller = this.active.get(downloadId)
+    controller?.abort()
+    return controller !== undefined
+  }
+
+  async download(
+    url: string,
+    { key = url, downloadId, onProgress }: DownloadOptions = {}
+  ): Promise<Uint8Array> {
+    checkBookUrl(url)
+    const controller = new AbortController()
+    if (downloadId) this.active.set(downloadId, controller)
+
+    const partial = this.partials.get(key) ?? emptyPartial()
+    this.partials.delete(key)
+    if (partial.receivedBytes > 0) {
+      console.log(`[Downloads] Resuming ${key} at ${partial.receivedBytes} bytes`)
+    }
+
+    const startedAt = Date.now()
+    const startBytes = partial.receivedBytes
+    let lastReport = 0
+    const report = (force = false): void => {
+      const now = Date.now()
+      if (!onProgress || (!force && now - lastReport < PROGRESS_INTERVAL_MS)) return
+      lastReport = now
+      const seconds = (now - startedAt) / 1000
+      onProgress({
+        receivedBytes: partial.receivedBytes,
+        totalBytes: partial.totalBytes,
+        bytesPerSecond: seconds > 0 ? Math.round((partial.receivedBytes - startBytes) / seconds) : 0
+      })
+    }
+
+    try {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          await this.fetchInto(url, partial, controller.signal, report)
+          break
+        } catch (error) {
+          if (controller.signal.aborted) throw new DownloadCancelledError()
+          if (
+            error instanceof DownloadHttpError ||
+            error instanceof RequestPolicyError ||
+            attempt >= MAX_RESUME_ATTEMPTS
+          ) {
+            throw error
+          }
+          console.warn(
+            `[Downloads] Interrupted at ${partial.receivedBytes} bytes, resuming:`,
+            error
+          )
+        }
+      }
+      report(true)
+      return this.assemble(partial)
+    } catch (error) {
+      // Keep what arrived so opening the book again picks up from there
+      if (partial.receivedBytes > 0 && !(error instanceof RequestPolicyError)) {
+        this.keepPartial(key, partial)
+      }
+      throw error
+    } finally {
+      // Drops a response still being read, e.g. one refused partway through
+      controller.abort()
+      if (downloadId) this.active.delete(downloadId)
+    }
+  }
+
+  private async fetchInto(
+    url: string,
+    partial: PartialDownload,
+    signal: AbortSignal,
+    report: () => void
+  ): Promise<void> {
+    const headers: Record<string, string> = {}
+    if (partial.receivedBytes > 0) {
+      headers.Range = `bytes=${partial.receivedBytes}-`
+      if (partial.validator) headers['If-Range'] = partial.validator
+    }
+
+    // No redirects: they could lead anywhere
+    const response = await fetch(url, { headers, signal, redirect: 'error' })
+    if (response.status === 416) {
+      // What we have doesn't fit the file any more
+      Object.assign(partial, emptyPartial())
+      throw new Error('Requested range not satisfiable')
+    }
+    if (!response.ok) throw new DownloadHttpError(response.status)
+
+    if (response.status === 206) {
+      partial.totalBytes =
+        parseContentRangeTotal(response.headers.get('content-range')) ?? partial.totalBytes
+    } else {
+      // The whole file: the server ignored the range or the file changed
+      Object.assign(partial, emptyPartial())
+      const length = Number(response.headers.get('content-length'))
+      partial.totalBytes = length > 0 ? length : null
+    }
+    checkBookResponse(url, response, partial.totalBytes)
+    partial.validator = rangeValidator(response)
+
+    if (!response.body) throw new Error('Empty response')
+    const reader = response.body.getReader()
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+      partial.chunks.push(value)
+      partial.receivedBytes += value.byteLength
+      checkBookSize(url, partial.receivedBytes)
+      report()
+    }
+
+    if (partial.totalBytes !== null && partial.receivedBytes < partial.totalBytes) {
+      throw new Error(
+        `Connection closed at ${partial.receivedBytes} of ${partial.totalBytes} bytes`
+      )
+    }
+  }
+
+  private assemble(partial: PartialDownload): Uint8Array {
+    const data = new Uint8Array(partial.receivedBytes)
+    let offset = 0
+    for (const chunk of partial.chunks) {
+      data.set(chunk, offset)
+      offset += chunk.byteLength
+    }
+    return data
+  }
+
+  private keepPartial(key: string, partial: PartialDownload): void {
+    this.partials.set(key, partial)
+    // Forget the oldest ones beyond the limit
+    for (const oldKey of this.partials.keys()) {
+      if (this.partials.size <= MAX_PARTIALS) break
+      this.partials.delete(oldKey)
+    }
+  }
+}
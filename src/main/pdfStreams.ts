@@ -0,0 +1,260 @@
+import type { OfflineBookMeta, PdfStreamInfo } from '../shared/ipc'
+import { BookCache } from './bookCache'
+import { parseContentRange, parseContentRangeTotal, rangeValidator } from './pdfDownloader'
+import { checkBookResponse, checkBookUrl } from './requestPolicy'
+
+// Serves a book's PDF to the reader in byte ranges, so pdfjs can show the
+// first pages while the rest is still on its way. Meanwhile the whole file is
+// downloaded from start to end alongside; ranges already received are answered
+// from memory, and once every byte is in the book goes into the offline cache.
+// Memory grows with what has arrived, not with the size of the file.
+
+// Sent along when the stream opens. Matches the reader's range chunk size, so
+// pdfjs counts it as one whole chunk.
+const INITIAL_BYTES = 256 * 1024
+const READ_TIMEOUT_MS = 30000
+// Reconnects after the background download drops before giving up on it;
+// the reader can still fetch what it needs range by range
+const MAX_BACKGROUND_RETRIES = 3
+// Streams still open because a reader went away without closing them
+const MAX_STREAMS = 2
+
+// A run of received bytes. `data` grows as bytes are appended and may have
+// room to spare past `size`.
+interface Segment {
+  start: number
+  data: Uint8Array
+  size: number
+}
+
+class PdfStream {
+  readonly controller = new AbortController()
+  cached = false
+  private segments: Segment[] = []
+  // Byte ranges [start, end) received so far, sorted and merged
+  private covered: [number, number][] = []
+
+  constructor(
+    readonly url: string,
+    readonly book: OfflineBookMeta | undefined,
+    readonly length: number,
+    // From the first response, sent as If-Range so every range comes from
+    // the same version of the file
+    readonly validator: string | null
+  ) {}
+
+  rangeHeaders(begin: number, end?: number): Record<string, string> {
+    const headers: Record<string, string> = { Range: `bytes=${begin}-${end ?? ''}` }
+    if (this.validator) headers['If-Range'] = this.validator
+    return headers
+  }
+
+  write(offset: number, chunk: Uint8Array): void {
+    const bytes = chunk.subarray(0, Math.max(0, this.length - offset))
+    const end = offset + bytes.byteLength
+    if (bytes.byteLength === 0 || this.has(offset, end)) return
+
+    // Carry on a run that ends right here, e.g. the background download
+    const segment = this.segments.find((run) => run.start + run.size === offset)
+    if (segment) {
+      this.append(segment, bytes)
+    } else {
+      this.segments.push({ start: offset, data: bytes.slice(), size: bytes.byteLength })
+    }
+    this.markCovered(offset, end)
+  }
+
+  // Bytes [begin, end), which must all have been received
+  read(begin: number, end: number): Uint8Array {
+    const out = new Uint8Array(end - begin)
+    for (const { start, data, size } of this.segments) {
+      const from = Math.max(begin, start)
+      const to = Math.min(end, start + size)
+      if (from < to) out.set(data.subarray(from - start, to - start), from - begin)
+    }
+    return out
+  }
+
+  // The whole file in one buffer, which then replaces the separate runs
+  assemble(): Uint8Array {
+    const data = this.read(0, this.length)
+    this.segments = [{ start: 0, data, size: this.length }]
+    return data
+  }
+
+  has(begin: number, end: number): boolean {
+    return this.covered.some(([start, stop]) => start <= begin && end <= stop)
+  }
+
+  // How far the data runs without a gap from the start of the file
+  contiguousEnd(): number {
+    const first = this.covered[0]
+    return first && first[0] === 0 ? first[1] : 0
+  }
+
+  private append(segment: Segment, bytes: Uint8Array): void {
+    const size = segment.size + bytes.byteLength
+    if (size > segment.data.byteLength) {
+      // Double the room, but never past the end of the file
+      const capacity = Math.min(
+        Math.max(size, segment.data.byteLength * 2),
+        this.length - segment.start
+      )
+      const grown = new Uint8Array(capacity)
+      grown.set(segment.data.subarray(0, segment.size))
+      segment.data = grown
+    }
+    segment.data.set(bytes, segment.size)
+    segment.size = size
+  }
+
+  private markCovered(begin: number, end: number): void {
+    if (end <= begin) return
+    const merged: [number, number][] = []
+    for (const [start, stop] of this.covered) {
+      if (stop < begin || start > end) {
+        merged.push([start, stop])
+      } else {
+        begin = Math.min(begin, start)
+        end = Math.max(end, stop)
+      }
+    }
+    merged.push([begin, end])
+    this.covered = merged.sort((a, b) => a[0] - b[0])
+  }
+}
+
+export class PdfStreams {
+  private static instance: PdfStreams
+  private streams = new Map<string, PdfStream>()
+  private nextId = 1
+
+  static getInstance(): PdfStreams {
+    if (!PdfStreams.instance) {
+      PdfStreams.instance = new PdfStreams()
+    }
+    return PdfStreams.instance
+  }
+
+  // Resolves to null when the server doesn't do range requests; the book has
+  // to be downloaded whole then
+  async open(url: string, book?: OfflineBookMeta): Promise<PdfStreamInfo | null> {
+    checkBookUrl(url)
+    const response = await fetch(url, {
+      headers: { Range: `bytes=0-${INITIAL_BYTES - 1}` },
+      signal: AbortSignal.timeout(READ_TIMEOUT_MS),
+      redirect: 'error'
+    })
+    const length =
+      response.status === 206 ? parseContentRangeTotal(response.headers.get('content-range')) : null
+    if (length === null) {
+      await response.body?.cancel()
+      if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`)
+      console.log('[PdfStreams] No range support, falling back to a full download')
+      return null
+    }
+    try {
+      checkBookResponse(url, response, length)
+    } catch (error) {
+      await response.body?.cancel()
+      throw error
+    }
+
+    const initialData = new Uint8Array(await response.arrayBuffer())
+    const streamId = String(this.nextId++)
+    const stream = new PdfStream(url, book, length, rangeValidator(response))
+    stream.write(0, initialData)
+    this.streams.set(streamId, stream)
+    for (const oldId of this.streams.keys()) {
+      if (this.streams.size <= MAX_STREAMS) break
+      this.close(oldId)
+    }
+
+    console.log(`[PdfStreams] Opened stream ${streamId} for ${length} bytes`)
+    void this.downloadRest(stream)
+    return { streamId, length, initialData }
+  }
+
+  async read(streamId: string, begin: number, end: number): Promise<Uint8Array> {
+    const stream = this.streams.get(streamId)
+    if (!stream) throw new Error(`No open PDF stream ${streamId}`)
+    end = Math.min(end, stream.length)
+    if (begin >= end) throw new Error(`Invalid range ${begin}-${end}`)
+
+    if (!stream.has(begin, end)) {
+      const response = await fetch(stream.url, {
+        headers: stream.rangeHeaders(begin, end - 1),
+        signal: AbortSignal.any([stream.controller.signal, AbortSignal.timeout(READ_TIMEOUT_MS)]),
+        redirect: 'error'
+      })
+      await this.checkRange(stream, response, begin)
+      stream.write(begin, new Uint8Array(await response.arrayBuffer()))
+      this.cacheIfComplete(stream)
+    }
+    return stream.read(begin, end)
+  }
+
+  close(streamId: string): void {
+    const stream = this.streams.get(streamId)
+    if (!stream) return
+    stream.controller.abort()
+    this.streams.delete(streamId)
+    console.log(`[PdfStreams] Closed stream ${streamId}`)
+  }
+
+  private async downloadRest(stream: PdfStream): Promise<void> {
+    for (let attempt = 0; attempt <= MAX_BACKGROUND_RETRIES; attempt++) {
+      let position = stream.contiguousEnd()
+      if (position >= stream.length) break
+      try {
+        const response = await fetch(stream.url, {
+          headers: stream.rangeHeaders(position),
+          signal: stream.controller.signal,
+          redirect: 'error'
+        })
+        await this.checkRange(stream, response, position)
+        if (!response.body) throw new Error('Empty response')
+        const reader = response.body.getReader()
+        for (;;) {
+          const { done, value } = await reader.read()
+          if (done) break
+          stream.write(position, value)
+          position += value.byteLength
+        }
+      } catch (error) {
+        if (stream.controller.signal.aborted) return
+        console.warn(`[PdfStreams] Background download interrupted at ${position} bytes:`, error)
+      }
+    }
+    this.cacheIfComplete(stream)
+  }
+
+  // Only a 206 for exactly the bytes asked for, out of a file the same size as
+  // the one opened, may be written into the stream. A 200 means If-Range no
+  // longer matched: the book changed on the server and the bytes already
+  // received can't be mixed with the new ones, so the stream stops.
+  private async checkRange(stream: PdfStream, response: Response, begin: number): Promise<void> {
+    const range =
+      response.status === 206 ? parseContentRange(response.headers.get('content-range')) : null
+    if (range && range.start === begin && range.total === stream.length) return
+
+    await response.body?.cancel()
+    if (response.status === 200 || (range && range.total !== stream.length)) {
+      const error = new Error('The book changed on the server, open it again')
+      stream.controller.abort(error)
+      throw error
+    }
+    if (!range) throw new Error(`Range request failed with status ${response.status}`)
+    throw new Error(`Asked for bytes from ${begin} but got them from ${range.start}`)
+  }
+
+  private cacheIfComplete(stream: PdfStream): void {
+    const { book } = stream
+    if (!book || stream.cached || !stream.has(0, stream.length)) return
+    stream.cached = true
+    BookCache.getInstance()
+      .put(book, stream.assemble())
+      .then(() => console.log(`[BookCache] Cached book ${book.bookId} from its stream`))
+      .catch((error) => console.error('[BookCache] Error caching book:', error))
+  }
+}
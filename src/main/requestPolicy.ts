@@ -0,0 +1,74 @@
+// Where the main process may download books from. The renderer hands over the
+// URL, so without these checks 'fetch-pdf' would fetch anything a compromised
+// renderer asked for. Book downloads and range streams both go through here.
+
+// Book storage. BOOK_STORAGE_HOSTS (comma-separated) replaces the list, e.g. to
+// point a build at a staging bucket.
+const DEFAULT_BOOK_HOSTS = ['booksiam.s3.ap-southeast-1.amazonaws.com']
+
+export const MAX_BOOK_BYTES = 1024 * 1024 * 1024 // 1 GB
+
+// S3 reports files uploaded without a type as binary/octet-stream
+const BOOK_CONTENT_TYPES = ['application/pdf', 'application/octet-stream', 'binary/octet-stream']
+
+export class RequestPolicyError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RequestPolicyError'
+  }
+}
+
+function bookHosts(): string[] {
+  const configured = process.env.BOOK_STORAGE_HOSTS?.split(',')
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean)
+  return configured?.length ? configured : DEFAULT_BOOK_HOSTS
+}
+
+function reject(url: string, reason: string): never {
+  // Without the query string: signed URLs carry credentials in it
+  let where = url
+  try {
+    const parsed = new URL(url)
+    where = parsed.origin + parsed.pathname
+  } catch {
+    // Not a URL at all; log it as it came
+  }
+  console.warn(`[RequestPolicy] Rejected ${where}: ${reason}`)
+  throw new RequestPolicyError(`Request blocked: ${reason}`)
+}
+
+// Throws unless the URL is HTTPS on one of the book storage hosts
+export function checkBookUrl(url: string): void {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    reject(url, 'not a valid URL')
+  }
+  if (parsed.protocol !== 'https:') reject(url, 'only HTTPS is allowed')
+  if (parsed.username || parsed.password) reject(url, 'URLs with credentials are not allowed')
+  if (parsed.port) reject(url, 'non-standard ports are not allowed')
+  if (!bookHosts().includes(parsed.hostname)) {
+    reject(url, `${parsed.hostname} is not a book storage host`)
+  }
+}
+
+// Throws unless the response is a PDF of acceptable size. totalBytes is the
+// whole file's size as the caller read it from the headers.
+export function checkBookResponse(
+  url: string,
+  response: Response,
+  totalBytes: number | null
+): void {
+  const contentType = response.headers.get('content-type')?.split(';')[0].trim().toLowerCase()
+  if (!contentType || !BOOK_CONTENT_TYPES.includes(contentType)) {
+    reject(url, `unexpected content type ${contentType ?? '(none)'}`)
+  }
+  if (totalBytes !== null) checkBookSize(url, totalBytes)
+}
+
+// For bytes as they arrive, in case the server didn't say or said wrong
+export function checkBookSize(url: string, bytes: number): void {
+  if (bytes > MAX_BOOK_BYTES) reject(url, `larger than ${MAX_BOOK_BYTES} bytes`)
+}
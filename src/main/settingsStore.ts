@@ -0,0 +1,49 @@
+import { app } from 'electron'
+import { promises as fs, readFileSync } from 'fs'
+import { join } from 'path'
+
+// App settings persisted as JSON in the user data directory so they survive
+// restarts. The renderer owns the shape; this only stores and merges it.
+
+export type Settings = Record<string, unknown>
+
+export class SettingsStore {
+  private static instance: SettingsStore
+  private readonly path = join(app.getPath('userData'), 'settings.json')
+  private settings: Settings | null = null
+  // Serializes writes so quick successive changes land in order
+  private queue: Promise<unknown> = Promise.resolve()
+
+  static getInstance(): SettingsStore {
+    if (!SettingsStore.instance) {
+      SettingsStore.instance = new SettingsStore()
+    }
+    return SettingsStore.instance
+  }
+
+  get(): Settings {
+    if (!this.settings) {
+      try {
+        this.settings = JSON.parse(readFileSync(this.path, 'utf8')) as Settings
+      } catch {
+        // Missing or unreadable: start from defaults
+        this.settings = {}
+      }
+    }
+    return this.settings
+  }
+
+  async set(patch: Settings): Promise<Settings> {
+    this.settings = { ...this.get(), ...patch }
+    const snapshot = JSON.stringify(this.settings, null, 2)
+    const run = this.queue.then(async () => {
+      // Write to a temp file first so a crash can't leave half a file
+      const tempPath = `${this.path}.tmp`
+      await fs.writeFile(tempPath, snapshot)
+      await fs.rename(tempPath, this.path)
+    })
+    this.queue = run.catch(() => undefined)
+    await run
+    return this.settings
+  }
+}
@@ -1,22 +1,94 @@
-import { contextBridge } from 'electron'
-import { electronAPI } from '@electron-toolkit/preload'
+import { contextBridge, ipcRenderer } from 'electron'
+import type {
+  AppAPI,
+  EventChannel,
+  EventChannels,
+  InvokeArgs,
+  InvokeChannel,
+  InvokeResult,
+  SendChannel,
+  SendChannels
+} from '../shared/ipc'
 
-// Custom APIs for renderer
-const api = {}
+// Only the channels in the IPC contract can be reached from the renderer:
+// it gets these functions, not ipcRenderer itself.
 
-// Use `contextBridge` APIs to expose Electron APIs to
-// renderer only if context isolation is enabled, otherwise
-// just add to the DOM global.
+const invoke = <C extends InvokeChannel>(channel: C, ...args: InvokeArgs<C>): Promise<InvokeResult<C>> =>
+  ipcRenderer.invoke(channel, ...args)
+
+const send = <C extends SendChannel>(channel: C, ...args: SendChannels[C]): void =>
+  ipcRenderer.send(channel, ...args)
+
+const subscribe = <C extends EventChannel>(channel: C, handler: (...args: EventChannels[C]) => void): (() => void) => {
+  const listener = (_event: Electron.IpcRendererEvent, ...args: unknown[]): void =>
+    handler(...(args as EventChannels[C]))
+  ipcRenderer.on(channel, listener)
+  return () => {
+    ipcRenderer.removeListener(channel, listener)
+  }
+}
+
+const api: AppAPI = {
+  books: {
+    fetchPdf: (url, book, downloadId) => invoke('fetch-pdf', url, book, downloadId),
+    readOffline: (bookId) => invoke('read-offline-book', bookId),
+    downloadOffline: (book, url) => invoke('download-book-offline', book, url),
+    listOffline: () => invoke('get-offline-books'),
+    removeOffline: (bookId) => invoke('remove-offline-book', bookId),
+    cancelDownload: (downloadId) => invoke('cancel-pdf-download', downloadId),
+    onDownloadProgress: (handler) => subscribe('pdf-download-progress', handler),
+    openStream: (url, book) => invoke('pdf-stream-open', url, book),
+    readRange: (streamId, begin, end) => invoke('pdf-stream-read', streamId, begin, end),
+    closeStream: (streamId) => invoke('pdf-stream-close', streamId)
+  },
+  offlineCache: {
+    getStats: () => invoke('get-offline-cache-stats'),
+    clear: () => invoke('clear-offline-cache'),
+    setLimit: (maxBytes) => invoke('set-offline-cache-limit', maxBytes)
+  },
+  http: {
+    request: (request) => invoke('api-request', request)
+  },
+  settings: {
+    get: () => invoke('get-settings'),
+    set: (patch) => invoke('set-settings', patch)
+  },
+  auth: {
+    setCredentials: (token, userId) => invoke('auth-set-credentials', token, userId),
+    clearCredentials: () => invoke('auth-clear-credentials'),
+    getSession: () => invoke('auth-get-session'),
+    refresh: () => invoke('auth-refresh')
+  },
+  deepLinks: {
+    take: () => invoke('deep-link-take'),
+    onReceived: (handler) => subscribe('deep-link', handler)
+  },
+  app: {
+    getInfo: () => invoke('get-app-info'),
+    getPlatformInfo: () => invoke('check-platform-info'),
+    quit: () => send('app-quit'),
+    onClosing: (handler) => subscribe('app-closing', handler),
+    closingDone: () => send('app-closing-done')
+  },
+  screenProtection: {
+    checkPermission: () => invoke('check-screen-permission'),
+    requestPermission: () => invoke('request-screen-permission'),
+    start: () => invoke('start-screen-protection'),
+    stop: () => invoke('stop-screen-protection'),
+    getStatus: () => invoke('get-screen-protection-status'),
+    onCaptureDetected: (handler) => subscribe('screen-capture-detected', handler)
+  }
+}
+
+// Use `contextBridge` APIs to expose the API to the renderer only if context
+// isolation is enabled, otherwise just add it to the DOM global.
 if (process.contextIsolated) {
   try {
-    contextBridge.exposeInMainWorld('electron', electronAPI)
     contextBridge.exposeInMainWorld('api', api)
   } catch (error) {
     console.error(error)
   }
 } else {
-  // @ts-ignore (define in dts)
-  window.electron = electronAPI
   // @ts-ignore (define in dts)
   window.api = api
 }
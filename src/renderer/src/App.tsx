@@ -1,30 +1,48 @@
-import React, { useState, useEffect, JSX } from 'react';
+import React, { useState, useEffect, useRef, JSX } from 'react';
 import { Toaster } from 'react-hot-toast';
 import Sidebar from './components/Sidebar';
 import LoginPage from './pages/LoginPage';
 import RegisterPage from './pages/RegisterPage';
 import ForgotPasswordPage from './pages/ForgotPasswordPage';
-import ResetPasswordPage from './pages/ResetPasswordPage';
+import VerifyEmailPage from './pages/VerifyEmailPage';
 import LibraryPage from './pages/LibraryPage';
 import MyListPage from './pages/MyListPage';
 import MyCloudPage from './pages/MyCloudPage';
 import ProfilePage from './pages/ProfilePage';
+import SettingsPage from './pages/SettingsPage';
+import BookDetailPage from './pages/BookDetailPage';
+import ReaderPage from './pages/ReaderPage';
+import BookGate from './components/BookGate';
 import { AuthProvider, useAuth } from './context/AuthContext';
 import { UserProvider } from './context/UserContext';
+import { SettingsProvider } from './context/SettingsContext';
+import { RouterProvider } from './context/RouterContext';
+import { useRouter } from './hooks/useRouter';
+import { Section, routeSection } from './utils/routes';
 import { useScreenshotProtection } from './hooks/useScreenshotProtection';
+import { useDeepLinks } from './hooks/useDeepLinks';
 import ProtectionStatus from './components/ProtectionStatus';
 import PrivacyConsentModal from './components/PrivacyConsentModal';
 
 
 const InnerApp: React.FC = () => {
-  const [page, setPage] = useState('library');
+  const { route, entryKey, navigate, back, scrollContainerRef } = useRouter();
+  // Book screens keep the sidebar entry they were opened from highlighted
+  const sectionRef = useRef<Section>('library');
+  sectionRef.current = routeSection(route) ?? sectionRef.current;
   const [authPage, setAuthPage] = useState<
-    'login' | 'register' | 'forgot' | 'reset'
+    'login' | 'register' | 'forgot' | 'verify'
   >('login');
+  // Account waiting for email verification
+  const [verification, setVerification] = useState<{
+    email: string;
+    sendOnOpen: boolean;
+  }>({ email: '', sendOnOpen: false });
   const [showPrivacyConsent, setShowPrivacyConsent] = useState(true);
   const [privacyConsentGiven, setPrivacyConsentGiven] = useState(false);
   const { isAuthenticated, loading } = useAuth();
   const { startProtection, stopProtection } = useScreenshotProtection();
+  useDeepLinks(isAuthenticated);
 
   // Check if privacy consent was previously given
   useEffect(() => {
@@ -63,9 +81,7 @@ const InnerApp: React.FC = () => {
     } else {
       localStorage.setItem('privacy-consent-given', 'false');
       // If consent is not given, close the app
-      if (window.electron?.ipcRenderer?.send) {
-        window.electron.ipcRenderer.send('app-quit');
-      }
+      window.api?.app.quit();
     }
   };
 
@@ -98,26 +114,98 @@ const InnerApp: React.FC = () => {
 
   if (!isAuthenticated) {
     if (authPage === 'login')
-      return <LoginPage onNavigate={(p: any) => setAuthPage(p as any)} />;
+      return (
+        <LoginPage
+          onNavigate={(p: any) => setAuthPage(p as any)}
+          onUnverified={(userId) => {
+            // Login accepts a username too; then the page asks for the email
+            setVerification({
+              email: userId.includes('@') ? userId : '',
+              sendOnOpen: true,
+            });
+            setAuthPage('verify');
+          }}
+        />
+      );
     if (authPage === 'register')
-      return <RegisterPage onBack={() => setAuthPage('login')} />;
+      return (
+        <RegisterPage
+          onBack={() => setAuthPage('login')}
+          onRegistered={(email) => {
+            setVerification({ email, sendOnOpen: false });
+            setAuthPage('verify');
+          }}
+        />
+      );
+    if (authPage === 'verify')
+      return (
+        <VerifyEmailPage
+          email={verification.email}
+          sendOnOpen={verification.sendOnOpen}
+          onVerified={() => setAuthPage('login')}
+          onBack={() => setAuthPage('login')}
+        />
+      );
     if (authPage === 'forgot')
       return <ForgotPasswordPage onBack={() => setAuthPage('login')} />;
-    if (authPage === 'reset')
-      return <ResetPasswordPage onBack={() => setAuthPage('login')} />;
   }
 
+  const navigateToSection = (section: Section): void =>
+    navigate({ name: section });
+
   let content: JSX.Element | null = null;
 
-  if (page === 'library') content = <LibraryPage />;
-  else if (page === 'mylist') content = <MyListPage />;
-  else if (page === 'mycloud') content = <MyCloudPage />;
-  else if (page === 'profile') content = <ProfilePage />;
+  if (route.name === 'library') content = <LibraryPage />;
+  else if (route.name === 'mylist') content = <MyListPage />;
+  else if (route.name === 'mycloud') content = <MyCloudPage />;
+  else if (route.name === 'profile') content = <ProfilePage />;
+  else if (route.name === 'settings')
+    content = <SettingsPage onNavigate={navigateToSection} />;
+  else if (route.name === 'book') {
+    const { bookId } = route;
+    content = (
+      <BookGate bookId={bookId}>
+        {(book) => (
+          <BookDetailPage
+            book={book}
+            onBack={() => back({ name: sectionRef.current })}
+            onRead={() => navigate({ name: 'read', bookId }, { state: { book } })}
+          />
+        )}
+      </BookGate>
+    );
+  } else if (route.name === 'read') {
+    const { bookId, page } = route;
+    content = (
+      <BookGate bookId={bookId}>
+        {(book) => (
+          <ReaderPage
+            book={book}
+            initialPage={page}
+            // Keep the URL on the current page without adding history entries
+            onPageChange={(next) =>
+              navigate(
+                { name: 'read', bookId, page: next },
+                { replace: true, state: { book } },
+              )
+            }
+            onBack={() => back({ name: 'book', bookId })}
+          />
+        )}
+      </BookGate>
+    );
+  }
 
   return (
     <div className="flex h-screen bg-white">
-      <Sidebar currentPage={page} onNavigate={setPage} />
-      <div className="flex-1 overflow-auto">{content}</div>
+      <Sidebar currentPage={sectionRef.current} onNavigate={navigateToSection} />
+      <div
+        key={entryKey}
+        ref={scrollContainerRef}
+        className="flex-1 overflow-auto"
+      >
+        {content}
+      </div>
       <ProtectionStatus isProtected={isAuthenticated} />
     </div>
   );
@@ -126,8 +214,12 @@ const InnerApp: React.FC = () => {
 const App: React.FC = () => (
   <UserProvider>
     <AuthProvider>
-      <InnerApp />
-      <Toaster position="top-right" />
+      <SettingsProvider>
+        <RouterProvider>
+          <InnerApp />
+          <Toaster position="top-right" />
+        </RouterProvider>
+      </SettingsProvider>
     </AuthProvider>
   </UserProvider>
 );
@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from 'react';
+import { bookService } from '../services';
+import { Book } from '../services/bookService';
+import { useRouter } from '../hooks/useRouter';
+import { bookFromOffline } from '../utils/offlineBooks';
+
+interface BookGateProps {
+  bookId: number;
+  children: (book: Book) => React.ReactNode;
+}
+
+// Book screens are opened by id. Usually the list that linked here hands the
+// book over with the navigation; after a reload or from a link it is looked
+// up in the user's library instead, or among the offline copies when the
+// library can't be reached.
+const BookGate: React.FC<BookGateProps> = ({ bookId, children }) => {
+  const { state, navigate } = useRouter();
+  const handedOver = (state as { book?: Book } | undefined)?.book;
+  const [book, setBook] = useState<Book | null>(
+    handedOver?.bookId === bookId ? handedOver : null,
+  );
+  const [status, setStatus] = useState<'loading' | 'notFound' | 'failed'>(
+    'loading',
+  );
+  // Bumped by "Try again" to look the book up once more
+  const [attempt, setAttempt] = useState(0);
+  const hasBook = book?.bookId === bookId;
+
+  useEffect(() => {
+    if (hasBook) return;
+    let cancelled = false;
+    setStatus('loading');
+
+    const lookUp = async (): Promise<void> => {
+      const res = await bookService.getBooksInLibrary();
+      if (res.success) {
+        const found = (res.data as Book[]).find((b) => b.bookId === bookId);
+        if (cancelled) return;
+        if (found) setBook(found);
+        else setStatus('notFound');
+        return;
+      }
+
+      // No answer from the server isn't "not in your library"
+      console.warn('[BookGate] Library unavailable:', res.error);
+      const cached = window.api
+        ? await window.api.books.listOffline().catch(() => [])
+        : [];
+      const offline = cached.find((entry) => entry.bookId === bookId);
+      if (cancelled) return;
+      if (offline) setBook(bookFromOffline(offline));
+      else setStatus('failed');
+    };
+    lookUp();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [bookId, hasBook, attempt]);
+
+  if (book && hasBook) return <>{children(book)}</>;
+
+  return (
+    <div className="flex flex-col items-center justify-center h-full gap-4 text-gray-500">
+      {status === 'failed' ? (
+        <>
+          <div>Couldn&apos;t load this book. Check your connection.</div>
+          <button
+            className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
+            onClick={() => setAttempt((n) => n + 1)}
+          >
+            Try again
+          </button>
+        </>
+      ) : status === 'notFound' ? (
+        <>
+          <div>This book isn&apos;t in your library.</div>
+          <button
+            className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
+            onClick={() => navigate({ name: 'library' }, { replace: true })}
+          >
+            Go to library
+          </button>
+        </>
+      ) : (
+        'กำลังโหลด...'
+      )}
+    </div>
+  );
+};
+
+export default BookGate;
@@ -1,13 +1,12 @@
 import React from 'react';
 
-import { FiChevronLeft, FiChevronRight } from 'react-icons/fi';
+import { FiChevronLeft, FiChevronRight, FiDownload } from 'react-icons/fi';
+import { Bookmark } from '../services/bookService';
 
-interface Bookmark {
-  page: number;
-  note: string;
-}
+type SortOrder = 'page' | 'newest' | 'oldest';
 
 interface BookmarkSidebarProps {
+  bookTitle: string;
   bookmarks: Bookmark[];
   onJump: (page: number) => void;
   onRemove: (page: number) => void;
@@ -15,7 +14,42 @@ interface BookmarkSidebarProps {
   onClose: () => void;
 }
 
+const sortBookmarks = (bookmarks: Bookmark[], order: SortOrder): Bookmark[] => {
+  const sorted = [...bookmarks];
+  if (order === 'page') sorted.sort((a, b) => a.page - b.page);
+  else if (order === 'newest')
+    sorted.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  else sorted.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  return sorted;
+};
+
+const formatDate = (iso: string): string => {
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime()) ? '' : date.toLocaleString();
+};
+
+// Download the bookmarks as a plain-text file
+const exportBookmarks = (bookTitle: string, bookmarks: Bookmark[]): void => {
+  const lines = [
+    bookTitle,
+    '',
+    ...bookmarks.map(
+      (bm) =>
+        `Page ${bm.page} (${formatDate(bm.createdAt)})${bm.note ? `\n  ${bm.note}` : ''}`,
+    ),
+  ];
+  const blob = new Blob([lines.join('\n')], { type: 'text/plain' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${bookTitle.replace(/[\\/:*?"<>|]/g, '_')} - bookmarks.txt`;
+  link.click();
+  // The download only starts after this task, so revoke the URL after it
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
 const BookmarkSidebar: React.FC<BookmarkSidebarProps> = ({
+  bookTitle,
   bookmarks,
   onJump,
   onRemove,
@@ -25,6 +59,9 @@ const BookmarkSidebar: React.FC<BookmarkSidebarProps> = ({
   const [editing, setEditing] = React.useState<number | null>(null);
   const [editNote, setEditNote] = React.useState('');
   const [collapsed, setCollapsed] = React.useState(false);
+  const [sortOrder, setSortOrder] = React.useState<SortOrder>('page');
+
+  const sortedBookmarks = sortBookmarks(bookmarks, sortOrder);
 
   return (
     <div
@@ -50,17 +87,40 @@ const BookmarkSidebar: React.FC<BookmarkSidebarProps> = ({
               &times;
             </button>
           </div>
+          <div className="flex items-center gap-2 px-4 py-2 border-b text-xs">
+            <label htmlFor="bookmark-sort" className="text-gray-500">
+              Sort by
+            </label>
+            <select
+              id="bookmark-sort"
+              value={sortOrder}
+              onChange={(e) => setSortOrder(e.target.value as SortOrder)}
+              className="border rounded px-1 py-0.5"
+            >
+              <option value="page">Page</option>
+              <option value="newest">Newest first</option>
+              <option value="oldest">Oldest first</option>
+            </select>
+            <button
+              onClick={() => exportBookmarks(bookTitle, sortedBookmarks)}
+              disabled={bookmarks.length === 0}
+              className="ml-auto flex items-center gap-1 text-blue-500 disabled:text-gray-300"
+              title="Export bookmarks"
+            >
+              <FiDownload /> Export
+            </button>
+          </div>
           <div className="flex-1 overflow-auto p-4 space-y-4">
             {bookmarks.length === 0 && (
               <div className="text-gray-400">No bookmarks yet.</div>
             )}
-            {bookmarks.map((bm) => (
+            {sortedBookmarks.map((bm) => (
               <div
                 key={bm.page}
                 className="border rounded p-2 flex flex-col gap-1 bg-gray-50"
               >
                 <div className="flex items-center gap-2">
-                  <span className="font-semibold">Page {bm.page + 1}</span>
+                  <span className="font-semibold">Page {bm.page}</span>
                   <button
                     onClick={() => onJump(bm.page)}
                     className="text-xs text-blue-500 underline"
@@ -74,6 +134,9 @@ const BookmarkSidebar: React.FC<BookmarkSidebarProps> = ({
                     Remove
                   </button>
                 </div>
+                <div className="text-[11px] text-gray-400">
+                  {formatDate(bm.createdAt)}
+                </div>
                 {editing === bm.page ? (
                   <div className="flex gap-2 mt-1">
                     <input
@@ -0,0 +1,52 @@
+import React from 'react';
+import type { DownloadProgress as Progress } from '../../../shared/ipc';
+
+interface DownloadProgressProps {
+  // null until the first progress report arrives
+  progress: Progress | null;
+  onCancel: () => void;
+}
+
+const formatMegabytes = (bytes: number): string =>
+  `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// Progress bar shown while a book downloads, with the option to give up
+const DownloadProgress: React.FC<DownloadProgressProps> = ({
+  progress,
+  onCancel,
+}) => {
+  const total = progress?.totalBytes ?? null;
+  const percent =
+    progress && total ? Math.min(100, (progress.receivedBytes / total) * 100) : null;
+
+  return (
+    <div className="flex flex-col items-center w-72 space-y-2">
+      <div className="w-full h-2 bg-gray-200 rounded overflow-hidden">
+        {percent !== null ? (
+          <div
+            className="h-2 bg-blue-500 rounded transition-all"
+            style={{ width: `${percent}%` }}
+          />
+        ) : (
+          <div className="h-2 w-1/3 bg-blue-500 rounded animate-pulse" />
+        )}
+      </div>
+      <div className="text-sm text-gray-500">
+        {progress
+          ? `${formatMegabytes(progress.receivedBytes)}${
+              total ? ` of ${formatMegabytes(total)}` : ''
+            } · ${formatMegabytes(progress.bytesPerSecond)}/s`
+          : 'Connecting...'}
+      </div>
+      <button
+        type="button"
+        onClick={onCancel}
+        className="px-4 py-1.5 text-sm text-gray-600 border border-gray-300 rounded hover:bg-gray-100 transition-colors"
+      >
+        Cancel
+      </button>
+    </div>
+  );
+};
+
+export default DownloadProgress;
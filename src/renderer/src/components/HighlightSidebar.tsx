@@ -0,0 +1,154 @@
+import React from 'react';
+import { Highlight } from '../services/bookService';
+import { HIGHLIGHT_COLORS } from '../hooks/useHighlights';
+
+interface HighlightSidebarProps {
+  highlights: Highlight[];
+  onJump: (page: number) => void;
+  onRemove: (id: string) => void;
+  onEdit: (
+    id: string,
+    changes: Partial<Pick<Highlight, 'note' | 'color'>>,
+  ) => void;
+  onClose: () => void;
+}
+
+const HighlightSidebar: React.FC<HighlightSidebarProps> = ({
+  highlights,
+  onJump,
+  onRemove,
+  onEdit,
+  onClose,
+}) => {
+  const [editing, setEditing] = React.useState<string | null>(null);
+  const [editNote, setEditNote] = React.useState('');
+  const [colorFilter, setColorFilter] = React.useState<string | null>(null);
+
+  const visibleHighlights = highlights
+    .filter((hl) => !colorFilter || hl.color === colorFilter)
+    .sort((a, b) => a.page - b.page || a.createdAt.localeCompare(b.createdAt));
+
+  return (
+    <div
+      className="fixed top-0 right-0 h-full w-80 z-40 flex flex-col"
+      style={{ background: '#fff', boxShadow: '0 0 10px #0002' }}
+    >
+      <div className="flex items-center justify-between p-4 border-b font-bold text-lg">
+        Highlights
+        <button onClick={onClose} className="text-gray-400 hover:text-blue-600">
+          &times;
+        </button>
+      </div>
+      <div className="flex items-center gap-2 px-4 py-2 border-b text-xs">
+        <span className="text-gray-500">Show</span>
+        <button
+          onClick={() => setColorFilter(null)}
+          className={`px-2 py-0.5 rounded ${colorFilter === null ? 'bg-blue-100 text-blue-700' : 'text-gray-500'}`}
+        >
+          All
+        </button>
+        {HIGHLIGHT_COLORS.map((color) => (
+          <button
+            key={color.value}
+            onClick={() => setColorFilter(color.value)}
+            title={color.label}
+            className={`w-4 h-4 rounded-full border ${colorFilter === color.value ? 'ring-2 ring-blue-400' : ''}`}
+            style={{ background: color.value }}
+          />
+        ))}
+      </div>
+      <div className="flex-1 overflow-auto p-4 space-y-4">
+        {visibleHighlights.length === 0 && (
+          <div className="text-gray-400">
+            {highlights.length === 0
+              ? 'No highlights yet. Turn on the highlighter and select text on the page.'
+              : 'No highlights in this colour.'}
+          </div>
+        )}
+        {visibleHighlights.map((hl) => (
+          <div
+            key={hl.id}
+            className="border rounded p-2 flex flex-col gap-1 bg-gray-50"
+          >
+            <div className="flex items-center gap-2">
+              <span className="font-semibold">Page {hl.page}</span>
+              <button
+                onClick={() => onJump(hl.page)}
+                className="text-xs text-blue-500 underline"
+              >
+                Go
+              </button>
+              <div className="flex gap-1 ml-auto">
+                {HIGHLIGHT_COLORS.map((color) => (
+                  <button
+                    key={color.value}
+                    onClick={() => onEdit(hl.id, { color: color.value })}
+                    title={color.label}
+                    className={`w-3 h-3 rounded-full border ${hl.color === color.value ? 'ring-1 ring-gray-500' : ''}`}
+                    style={{ background: color.value }}
+                  />
+                ))}
+              </div>
+              <button
+                onClick={() => onRemove(hl.id)}
+                className="text-xs text-red-400"
+              >
+                Remove
+              </button>
+            </div>
+            <div
+              className="text-xs text-gray-700 pl-2 border-l-4 line-clamp-4"
+              style={{ borderColor: hl.color }}
+            >
+              {hl.text}
+            </div>
+            {editing === hl.id ? (
+              <div className="flex gap-2 mt-1">
+                <input
+                  value={editNote}
+                  onChange={(e) => setEditNote(e.target.value)}
+                  className="border px-2 py-1 rounded text-xs flex-1"
+                  placeholder="Add a note..."
+                />
+                <button
+                  onClick={() => {
+                    onEdit(hl.id, { note: editNote });
+                    setEditing(null);
+                  }}
+                  className="text-xs px-2 py-1 rounded bg-blue-500 text-white"
+                >
+                  Save
+                </button>
+                <button
+                  onClick={() => setEditing(null)}
+                  className="text-xs px-2 py-1 rounded bg-gray-300"
+                >
+                  Cancel
+                </button>
+              </div>
+            ) : (
+              <div className="flex gap-2 items-center">
+                <span className="text-xs text-gray-700">
+                  {hl.note || (
+                    <span className="italic text-gray-400">No note</span>
+                  )}
+                </span>
+                <button
+                  onClick={() => {
+                    setEditing(hl.id);
+                    setEditNote(hl.note);
+                  }}
+                  className="text-xs text-gray-500 ml-auto"
+                >
+                  Edit
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default HighlightSidebar;
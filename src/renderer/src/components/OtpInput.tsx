@@ -0,0 +1,113 @@
+import React, { useEffect, useRef } from 'react';
+
+interface OtpInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Called once every digit has been entered
+  onComplete?: (value: string) => void;
+  length?: number;
+  disabled?: boolean;
+  error?: boolean;
+  autoFocus?: boolean;
+}
+
+// One box per digit. Typing moves to the next box, Backspace to the previous
+// one, and pasting a code fills all of them.
+const OtpInput: React.FC<OtpInputProps> = ({
+  value,
+  onChange,
+  onComplete,
+  length = 6,
+  disabled = false,
+  error = false,
+  autoFocus = false,
+}) => {
+  const inputsRef = useRef<(HTMLInputElement | null)[]>([]);
+
+  useEffect(() => {
+    if (autoFocus) inputsRef.current[0]?.focus();
+  }, [autoFocus]);
+
+  const focusBox = (index: number): void => {
+    const box = inputsRef.current[Math.max(0, Math.min(length - 1, index))];
+    box?.focus();
+    box?.select();
+  };
+
+  const update = (next: string): void => {
+    const digits = next.replace(/\D/g, '').slice(0, length);
+    onChange(digits);
+    if (digits.length === length) onComplete?.(digits);
+  };
+
+  const handleInput = (index: number, input: string): void => {
+    // Typing into a filled box gives both digits; keep the new one
+    const typed =
+      value[index] && input.length > 1 ? input.replace(value[index], '') : input;
+    const digits = typed.replace(/\D/g, '');
+    if (!digits) return;
+    // Replace this box (and following ones, if several digits were typed)
+    update(value.slice(0, index) + digits + value.slice(index + digits.length));
+    focusBox(index + digits.length);
+  };
+
+  const handleKeyDown = (
+    index: number,
+    e: React.KeyboardEvent<HTMLInputElement>,
+  ): void => {
+    if (e.key === 'Backspace') {
+      e.preventDefault();
+      if (value[index]) {
+        update(value.slice(0, index) + value.slice(index + 1));
+      } else if (index > 0) {
+        update(value.slice(0, index - 1) + value.slice(index));
+        focusBox(index - 1);
+      }
+    } else if (e.key === 'ArrowLeft') {
+      e.preventDefault();
+      focusBox(index - 1);
+    } else if (e.key === 'ArrowRight') {
+      e.preventDefault();
+      focusBox(index + 1);
+    }
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>): void => {
+    e.preventDefault();
+    const digits = e.clipboardData.getData('text').replace(/\D/g, '');
+    if (!digits) return;
+    update(digits);
+    focusBox(digits.length);
+  };
+
+  return (
+    <div className="flex justify-center gap-2">
+      {Array.from({ length }, (_, index) => (
+        <input
+          key={index}
+          ref={(el) => {
+            inputsRef.current[index] = el;
+          }}
+          type="text"
+          inputMode="numeric"
+          autoComplete={index === 0 ? 'one-time-code' : 'off'}
+          maxLength={length}
+          value={value[index] ?? ''}
+          disabled={disabled}
+          onChange={(e) => handleInput(index, e.target.value)}
+          onKeyDown={(e) => handleKeyDown(index, e)}
+          onPaste={handlePaste}
+          onFocus={(e) => e.target.select()}
+          aria-label={`Digit ${index + 1}`}
+          className={`w-11 h-12 text-center text-xl border rounded-lg outline-none focus:ring-2 disabled:bg-gray-100 ${
+            error
+              ? 'border-red-500 focus:ring-red-300'
+              : 'border-gray-300 focus:ring-blue-500'
+          }`}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default OtpInput;
@@ -7,6 +7,8 @@ interface OverviewGridProps {
   searchTerm: string;
   onJump: (page: number) => void;
   onClose: () => void;
+  // Page colour of the reading theme, shown behind thumbnails
+  pageBackground?: string;
 }
 
 const OverviewGrid: React.FC<OverviewGridProps> = ({
@@ -16,6 +18,7 @@ const OverviewGrid: React.FC<OverviewGridProps> = ({
   searchTerm,
   onJump,
   onClose,
+  pageBackground,
 }) => {
   return (
     <div className="fixed inset-0 bg-black bg-opacity-40 z-30 flex flex-col items-center justify-center my-[6px]">
@@ -56,7 +59,7 @@ const OverviewGrid: React.FC<OverviewGridProps> = ({
             const pageNum = idx + 1;
             const thumbnail = thumbnails[pageNum];
             const isHighlighted = searchTerm && text.toLowerCase().includes(searchTerm.toLowerCase());
-            const isBookmarked = bookmarks.includes(idx);
+            const isBookmarked = bookmarks.includes(pageNum);
 
             return (
               <div
@@ -66,7 +69,10 @@ const OverviewGrid: React.FC<OverviewGridProps> = ({
                 onClick={() => onJump(pageNum)}
               >
                 {/* Page thumbnail */}
-                <div className="aspect-[3/4] bg-gray-100 rounded-t-lg overflow-hidden relative">
+                <div
+                  className="aspect-[3/4] bg-gray-100 rounded-t-lg overflow-hidden relative"
+                  style={{ background: pageBackground }}
+                >
                   {thumbnail ? (
                     <img
                       src={thumbnail}
@@ -0,0 +1,184 @@
+import React, { useEffect, useRef } from 'react';
+import * as pdfjsLib from 'pdfjs-dist';
+import 'pdfjs-dist/web/pdf_viewer.css';
+import { Highlight, HighlightRect } from '../services/bookService';
+import { ReaderLinkService } from '../utils/pdfLinks';
+
+interface PageLayersProps {
+  pdf: pdfjsLib.PDFDocumentProxy;
+  pageNumber: number;
+  scale: number;
+  // Horizontal position of the page on the canvas, in CSS pixels
+  left: number;
+  linkService: ReaderLinkService;
+  // When false the text can't be selected or copied
+  allowCopy: boolean;
+  highlights: Highlight[];
+  // Colour of the active highlight tool, or null when the tool is off
+  highlightColor: string | null;
+  onHighlight: (
+    pageNumber: number,
+    text: string,
+    rects: HighlightRect[],
+  ) => void;
+}
+
+/**
+ * Rectangles of the selection inside `container`, converted to page units
+ */
+const selectionRects = (
+  range: Range,
+  container: HTMLElement,
+  scale: number,
+): HighlightRect[] => {
+  const origin = container.getBoundingClientRect();
+  return Array.from(range.getClientRects())
+    .filter((rect) => rect.width > 0 && rect.height > 0)
+    .map((rect) => ({
+      x: (rect.left - origin.left) / scale,
+      y: (rect.top - origin.top) / scale,
+      width: rect.width / scale,
+      height: rect.height / scale,
+    }));
+};
+
+// Text and annotation layers laid over a page drawn on the reader canvas
+const PageLayers: React.FC<PageLayersProps> = ({
+  pdf,
+  pageNumber,
+  scale,
+  left,
+  linkService,
+  allowCopy,
+  highlights,
+  highlightColor,
+  onHighlight,
+}) => {
+  const textLayerRef = useRef<HTMLDivElement>(null);
+  const annotationLayerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const textDiv = textLayerRef.current;
+    const annotationDiv = annotationLayerRef.current;
+    if (!textDiv || !annotationDiv) return;
+
+    let cancelled = false;
+    let textLayer: pdfjsLib.TextLayer | null = null;
+
+    const renderLayers = async (): Promise<void> => {
+      try {
+        const pageObj = await pdf.getPage(pageNumber);
+        if (cancelled) return;
+        const viewport = pageObj.getViewport({ scale });
+
+        textLayer = new pdfjsLib.TextLayer({
+          textContentSource: pageObj.streamTextContent(),
+          container: textDiv,
+          viewport,
+        });
+        await textLayer.render();
+
+        const annotations = await pageObj.getAnnotations({ intent: 'display' });
+        if (cancelled) return;
+        const annotationLayer = new pdfjsLib.AnnotationLayer({
+          div: annotationDiv,
+          page: pageObj,
+          viewport,
+          accessibilityManager: null,
+          annotationCanvasMap: null,
+          annotationEditorUIManager: null,
+          structTreeLayer: null,
+        });
+        await annotationLayer.render({
+          div: annotationDiv,
+          page: pageObj,
+          viewport,
+          annotations,
+          linkService,
+          renderForms: false,
+        });
+      } catch (error) {
+        if (!cancelled) {
+          console.error(
+            `[PageLayers] Failed to render layers for page ${pageNumber}:`,
+            error,
+          );
+        }
+      }
+    };
+    renderLayers();
+
+    return () => {
+      cancelled = true;
+      textLayer?.cancel();
+      textDiv.replaceChildren();
+      annotationDiv.replaceChildren();
+    };
+  }, [pdf, pageNumber, scale, linkService]);
+
+  // Turn the current text selection into a highlight
+  const handleMouseUp = (): void => {
+    const textDiv = textLayerRef.current;
+    const selection = window.getSelection();
+    if (!highlightColor || !textDiv || !selection || selection.isCollapsed) {
+      return;
+    }
+    const range = selection.getRangeAt(0);
+    if (!textDiv.contains(range.commonAncestorContainer)) return;
+
+    const text = selection.toString().trim();
+    const rects = selectionRects(range, textDiv, scale);
+    selection.removeAllRanges();
+    if (text && rects.length > 0) onHighlight(pageNumber, text, rects);
+  };
+
+  // Text can always be selected for highlighting, but only copied if allowed
+  const selectable = allowCopy || highlightColor !== null;
+
+  return (
+    <div
+      className="absolute top-0"
+      style={
+        {
+          left,
+          '--scale-factor': scale,
+          '--total-scale-factor': scale,
+        } as React.CSSProperties
+      }
+      onCopy={allowCopy ? undefined : (e) => e.preventDefault()}
+      onContextMenu={allowCopy ? undefined : (e) => e.preventDefault()}
+      onMouseUp={handleMouseUp}
+    >
+      <div className="absolute top-0 left-0 pointer-events-none">
+        {highlights.flatMap((highlight) =>
+          highlight.rects.map((rect, index) => (
+            <div
+              key={`${highlight.id}-${index}`}
+              className="absolute"
+              style={{
+                left: rect.x * scale,
+                top: rect.y * scale,
+                width: rect.width * scale,
+                height: rect.height * scale,
+                background: highlight.color,
+                opacity: 0.4,
+                mixBlendMode: 'multiply',
+              }}
+            />
+          )),
+        )}
+      </div>
+      <div
+        ref={textLayerRef}
+        className="textLayer"
+        style={{
+          userSelect: selectable ? 'text' : 'none',
+          cursor: highlightColor ? 'text' : undefined,
+        }}
+      />
+      <div ref={annotationLayerRef} className="annotationLayer" />
+    </div>
+  );
+};
+
+export default PageLayers;
@@ -0,0 +1,52 @@
+import React from 'react';
+import {
+  StrengthLevel,
+  checkPasswordStrength,
+} from '../utils/passwordStrength';
+
+interface PasswordStrengthMeterProps {
+  password: string;
+}
+
+const levelStyles: Record<StrengthLevel, { label: string; color: string }> = {
+  weak: { label: 'Weak', color: 'bg-red-500' },
+  fair: { label: 'Fair', color: 'bg-yellow-500' },
+  good: { label: 'Good', color: 'bg-blue-500' },
+  strong: { label: 'Strong', color: 'bg-green-500' },
+};
+
+// Strength bar plus the list of rules, shown under a new password field
+const PasswordStrengthMeter: React.FC<PasswordStrengthMeterProps> = ({
+  password,
+}) => {
+  if (!password) return null;
+  const strength = checkPasswordStrength(password);
+  const style = levelStyles[strength.level];
+
+  return (
+    <div className="mt-2 text-xs">
+      <div className="flex items-center gap-2">
+        <div className="flex-1 h-1.5 bg-gray-200 rounded">
+          <div
+            className={`h-1.5 rounded ${style.color}`}
+            style={{ width: `${(strength.score / strength.maxScore) * 100}%` }}
+          />
+        </div>
+        <span className="text-gray-600 w-12 text-right">{style.label}</span>
+      </div>
+      <ul className="mt-1 space-y-0.5">
+        {strength.rules.map((rule) => (
+          <li
+            key={rule.label}
+            className={rule.passed ? 'text-green-600' : 'text-gray-500'}
+          >
+            {rule.passed ? '✓' : '•'} {rule.label}
+            {!rule.required && !rule.passed && ' (recommended)'}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default PasswordStrengthMeter;
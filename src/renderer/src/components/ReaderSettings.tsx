@@ -1,15 +1,20 @@
 import React from 'react';
+import { MAX_ZOOM, MIN_ZOOM, ZoomMode } from '../hooks/useZoom';
+import {
+  BgOption,
+  PageColors,
+  PageMode,
+  ReaderTheme,
+  pageModeOptions,
+  themeOptions,
+  zoomModeOptions,
+} from '../utils/readerOptions';
 
 interface FontOption {
   label: string;
   value: string;
 }
 
-interface BgOption {
-  label: string;
-  value: string;
-}
-
 interface ReaderSettingsProps {
   fontSize: number;
   setFontSize: (v: number) => void;
@@ -21,10 +26,21 @@ interface ReaderSettingsProps {
   customBg: string;
   setCustomBg: (v: string) => void;
   bgOptions: BgOption[];
-  singlePage: boolean;
-  setSinglePage: (v: boolean) => void;
+  pageMode: PageMode;
+  setPageMode: (v: PageMode) => void;
+  theme: ReaderTheme;
+  setTheme: (v: ReaderTheme) => void;
+  customThemeColors: PageColors;
+  setCustomThemeColors: (v: PageColors) => void;
   zoom: number;
-  setZoom: React.Dispatch<React.SetStateAction<number>>;
+  zoomMode: ZoomMode;
+  setZoomMode: (v: ZoomMode) => void;
+  zoomIn: () => void;
+  zoomOut: () => void;
+  // Whether this book has its own preferences instead of the defaults
+  hasBookOverrides: boolean;
+  onSaveAsDefault: () => void;
+  onResetToDefault: () => void;
 }
 
 const ReaderSettings: React.FC<ReaderSettingsProps> = ({
@@ -38,10 +54,20 @@ const ReaderSettings: React.FC<ReaderSettingsProps> = ({
   customBg,
   setCustomBg,
   bgOptions,
-  singlePage,
-  setSinglePage,
+  pageMode,
+  setPageMode,
+  theme,
+  setTheme,
+  customThemeColors,
+  setCustomThemeColors,
   zoom,
-  setZoom,
+  zoomMode,
+  setZoomMode,
+  zoomIn,
+  zoomOut,
+  hasBookOverrides,
+  onSaveAsDefault,
+  onResetToDefault,
 }) => {
   return (
     <div className="bg-white shadow-md border-b border-gray-200 p-4 flex flex-wrap gap-6 justify-center items-center">
@@ -101,37 +127,110 @@ const ReaderSettings: React.FC<ReaderSettingsProps> = ({
           title="Custom color"
         />
       </div>
+      {/* Page theme */}
+      <div className="flex items-center gap-2">
+        <span className="text-sm">Theme:</span>
+        {themeOptions.map((opt) => (
+          <button
+            key={opt.value}
+            className={`px-3 py-1 rounded text-sm ${theme === opt.value ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-700'}`}
+            onClick={() => setTheme(opt.value)}
+          >
+            {opt.label}
+          </button>
+        ))}
+        {theme === 'custom' && (
+          <>
+            <input
+              type="color"
+              value={customThemeColors.foreground}
+              onChange={(e) =>
+                setCustomThemeColors({
+                  ...customThemeColors,
+                  foreground: e.target.value,
+                })
+              }
+              className="w-6 h-6 rounded border-2 border-gray-300"
+              title="Text color"
+            />
+            <input
+              type="color"
+              value={customThemeColors.background}
+              onChange={(e) =>
+                setCustomThemeColors({
+                  ...customThemeColors,
+                  background: e.target.value,
+                })
+              }
+              className="w-6 h-6 rounded border-2 border-gray-300"
+              title="Page color"
+            />
+          </>
+        )}
+      </div>
       {/* Page mode */}
       <div className="flex items-center gap-2">
         <span className="text-sm">Page Mode:</span>
+        {pageModeOptions.map((opt) => (
+          <button
+            key={opt.value}
+            className={`px-3 py-1 rounded text-sm ${pageMode === opt.value ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-700'}`}
+            onClick={() => setPageMode(opt.value)}
+          >
+            {opt.label}
+          </button>
+        ))}
+      </div>
+      {/* Zoom controls */}
+      <div className="flex items-center gap-2">
+        <span className="text-sm">Zoom:</span>
+        {zoomModeOptions.map((opt) => (
+          <button
+            key={opt.value}
+            className={`px-3 py-1 rounded text-sm ${zoomMode === opt.value ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-700'}`}
+            onClick={() => setZoomMode(opt.value)}
+          >
+            {opt.label}
+          </button>
+        ))}
         <button
-          className={`px-3 py-1 rounded text-sm ${singlePage ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-700'}`}
-          onClick={() => setSinglePage(true)}
+          onClick={zoomOut}
+          disabled={zoom <= MIN_ZOOM}
+          className="px-2 py-1 rounded bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50"
         >
-          Single
+          -
         </button>
+        <span
+          className={`text-sm ${zoomMode === 'custom' ? 'font-semibold' : ''}`}
+        >
+          {Math.round(zoom * 100)}%
+        </span>
         <button
-          className={`px-3 py-1 rounded text-sm ${!singlePage ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-700'}`}
-          onClick={() => setSinglePage(false)}
+          onClick={zoomIn}
+          disabled={zoom >= MAX_ZOOM}
+          className="px-2 py-1 rounded bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50"
         >
-          Double
+          +
         </button>
       </div>
-      {/* Zoom controls */}
+      {/* Book preferences vs. defaults */}
       <div className="flex items-center gap-2">
-        <span className="text-sm">Zoom:</span>
+        <span className="text-xs text-gray-500">
+          {hasBookOverrides ? 'Custom for this book' : 'Using defaults'}
+        </span>
         <button
-          onClick={() => setZoom((z) => Math.max(z - 0.2, 0.5))}
-          className="px-2 py-1 rounded bg-gray-100 text-gray-700 hover:bg-gray-200"
+          onClick={onSaveAsDefault}
+          disabled={!hasBookOverrides}
+          className="px-2 py-1 rounded text-sm bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50"
         >
-          -
+          Save as default
         </button>
-        <span className="text-sm">{Math.round(zoom * 100)}%</span>
         <button
-          onClick={() => setZoom((z) => Math.min(z + 0.2, 3))}
-          className="px-2 py-1 rounded bg-gray-100 text-gray-700 hover:bg-gray-200"
+          onClick={onResetToDefault}
+          disabled={!hasBookOverrides}
+          className="px-2 py-1 rounded text-sm bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50"
         >
-          +
+          Reset
         </button>
       </div>
     </div>
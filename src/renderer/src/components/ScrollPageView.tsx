@@ -0,0 +1,311 @@
+import React, {
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import * as pdfjsLib from 'pdfjs-dist';
+import type { PageColors } from '../utils/readerOptions';
+
+// Vertical space between pages, in CSS pixels
+const PAGE_GAP = 16;
+// How far outside the viewport pages are still rendered, in viewport heights
+const OVERSCAN = 1;
+
+interface PageSize {
+  width: number;
+  height: number;
+}
+
+interface ScrollPageViewProps {
+  pdf: pdfjsLib.PDFDocumentProxy;
+  page: number;
+  onPageChange: (page: number) => void;
+  zoom: number;
+  drawHighlights: (
+    context: CanvasRenderingContext2D,
+    pageNumber: number,
+    viewport: pdfjsLib.PageViewport,
+  ) => Promise<void>;
+  // Text, annotation and highlight layers for a rendered page
+  renderLayers: (pageNumber: number, scale: number) => React.ReactNode;
+  // Theme colours for the page contents
+  pageColors?: PageColors;
+}
+
+interface ScrollPageProps {
+  pdf: pdfjsLib.PDFDocumentProxy;
+  pageNumber: number;
+  zoom: number;
+  top: number;
+  left: number;
+  size: PageSize;
+  onMeasured: (pageNumber: number, size: PageSize) => void;
+  drawHighlights: ScrollPageViewProps['drawHighlights'];
+  renderLayers: ScrollPageViewProps['renderLayers'];
+  pageColors?: PageColors;
+}
+
+const ScrollPage: React.FC<ScrollPageProps> = ({
+  pdf,
+  pageNumber,
+  zoom,
+  top,
+  left,
+  size,
+  onMeasured,
+  drawHighlights,
+  renderLayers,
+  pageColors,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    let cancelled = false;
+    let renderTask: pdfjsLib.RenderTask | null = null;
+
+    const renderPage = async (): Promise<void> => {
+      try {
+        const pageObj = await pdf.getPage(pageNumber);
+        if (cancelled) return;
+        const unscaled = pageObj.getViewport({ scale: 1 });
+        onMeasured(pageNumber, {
+          width: unscaled.width,
+          height: unscaled.height,
+        });
+
+        const viewport = pageObj.getViewport({ scale: zoom });
+        const context = canvas.getContext('2d')!;
+        canvas.width = viewport.width;
+        canvas.height = viewport.height;
+        renderTask = pageObj.render({
+          canvasContext: context,
+          viewport,
+          canvas,
+          pageColors,
+        });
+        await renderTask.promise;
+        if (cancelled) return;
+        await drawHighlights(context, pageNumber, viewport);
+      } catch (err) {
+        if (err instanceof pdfjsLib.RenderingCancelledException) return;
+        console.error(`[ScrollPageView] Error rendering page ${pageNumber}:`, err);
+      }
+    };
+    renderPage();
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [pdf, pageNumber, zoom, onMeasured, drawHighlights, pageColors]);
+
+  return (
+    <div
+      className="absolute"
+      style={{
+        background: pageColors?.background ?? '#fff',
+        top,
+        left,
+        width: size.width * zoom,
+        height: size.height * zoom,
+      }}
+    >
+      <canvas ref={canvasRef} className="shadow-2xl rounded-lg" />
+      {renderLayers(pageNumber, zoom)}
+    </div>
+  );
+};
+
+// Continuous vertical reading mode. Only pages near the viewport are
+// mounted; unrendered pages are assumed to be the size of the first one
+// until they've been measured.
+const ScrollPageView: React.FC<ScrollPageViewProps> = ({
+  pdf,
+  page,
+  onPageChange,
+  zoom,
+  drawHighlights,
+  renderLayers,
+  pageColors,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [defaultSize, setDefaultSize] = useState<PageSize | null>(null);
+  const [sizes, setSizes] = useState<Record<number, PageSize>>({});
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  // Last page reported to the parent, to tell our own updates from jumps
+  const reportedPageRef = useRef(page);
+
+  useEffect(() => {
+    let cancelled = false;
+    pdf.getPage(1).then((first) => {
+      if (cancelled) return;
+      const viewport = first.getViewport({ scale: 1 });
+      setDefaultSize({ width: viewport.width, height: viewport.height });
+    });
+    setSizes({});
+    return () => {
+      cancelled = true;
+    };
+  }, [pdf]);
+
+  const onMeasured = useCallback((pageNumber: number, size: PageSize) => {
+    setSizes((current) => {
+      const known = current[pageNumber];
+      if (known && known.width === size.width && known.height === size.height) {
+        return current;
+      }
+      return { ...current, [pageNumber]: size };
+    });
+  }, []);
+
+  // Top offset of every page (index 0 = page 1), plus the size of the
+  // content: total height and the width of the widest page
+  const layout = useMemo(() => {
+    const offsets: number[] = [];
+    if (!defaultSize) return { offsets, total: 0, width: 0 };
+    let y = PAGE_GAP;
+    let width = 0;
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const size = sizes[pageNumber] ?? defaultSize;
+      offsets.push(y);
+      y += size.height * zoom + PAGE_GAP;
+      width = Math.max(width, size.width * zoom);
+    }
+    return { offsets, total: y, width };
+  }, [pdf, defaultSize, sizes, zoom]);
+
+  const sizeOf = (pageNumber: number): PageSize =>
+    sizes[pageNumber] ?? defaultSize ?? { width: 0, height: 0 };
+
+  // Page at a vertical offset in the scrolled content
+  const pageAt = (y: number): number => {
+    const { offsets } = layout;
+    let low = 0;
+    let high = offsets.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (offsets[mid] <= y) low = mid;
+      else high = mid - 1;
+    }
+    return low + 1;
+  };
+
+  // Where the reader is: the current page and how far into it the top of
+  // the viewport is, as a fraction of the page height
+  const positionRef = useRef({ page, fraction: 0 });
+  const initializedRef = useRef(false);
+
+  const handleScroll = (): void => {
+    const container = containerRef.current;
+    if (!container) return;
+    setScrollTop(container.scrollTop);
+    // The current page is the one a third of the way down the viewport
+    const current = pageAt(container.scrollTop + viewportHeight / 3);
+    const pageHeight = sizeOf(current).height * zoom;
+    positionRef.current = {
+      page: current,
+      fraction: pageHeight
+        ? (container.scrollTop - layout.offsets[current - 1]) / pageHeight
+        : 0,
+    };
+    if (current !== reportedPageRef.current) {
+      reportedPageRef.current = current;
+      onPageChange(current);
+    }
+  };
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() =>
+      setViewportHeight(container.clientHeight),
+    );
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // The effects below read the layout as it is when they run, but must not
+  // run again just because a page got measured
+  const latestRef = useRef({ layout, sizeOf });
+  latestRef.current = { layout, sizeOf };
+  const pageCount = layout.offsets.length;
+
+  // Scroll to pages chosen elsewhere (navigation buttons, TOC, search...).
+  // Only the page count matters here: measuring pages must not scroll.
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container || pageCount === 0) return;
+    if (initializedRef.current && page === reportedPageRef.current) return;
+    initializedRef.current = true;
+    reportedPageRef.current = page;
+    positionRef.current = { page, fraction: 0 };
+    container.scrollTop =
+      latestRef.current.layout.offsets[page - 1] - PAGE_GAP;
+  }, [page, pageCount]);
+
+  // Keep the same spot on screen when zooming
+  const previousZoomRef = useRef(zoom);
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container || previousZoomRef.current === zoom) return;
+    previousZoomRef.current = zoom;
+    const { page: anchorPage, fraction } = positionRef.current;
+    const { layout: current, sizeOf: currentSizeOf } = latestRef.current;
+    container.scrollTop =
+      (current.offsets[anchorPage - 1] ?? 0) +
+      fraction * currentSizeOf(anchorPage).height * zoom;
+    setScrollTop(container.scrollTop);
+  }, [zoom]);
+
+  // Pages that intersect the viewport plus the overscan margin
+  const visiblePages: number[] = [];
+  if (defaultSize) {
+    const margin = viewportHeight * OVERSCAN;
+    const first = pageAt(scrollTop - margin);
+    for (let pageNumber = first; pageNumber <= pdf.numPages; pageNumber++) {
+      if (layout.offsets[pageNumber - 1] > scrollTop + viewportHeight + margin) {
+        break;
+      }
+      visiblePages.push(pageNumber);
+    }
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      onScroll={handleScroll}
+      className="w-full overflow-auto"
+      style={{ height: 'calc(100vh - 260px)' }}
+    >
+      <div
+        className="relative mx-auto"
+        style={{ height: layout.total, width: layout.width }}
+      >
+        {visiblePages.map((pageNumber) => (
+          <ScrollPage
+            key={pageNumber}
+            pdf={pdf}
+            pageNumber={pageNumber}
+            zoom={zoom}
+            top={layout.offsets[pageNumber - 1]}
+            left={(layout.width - sizeOf(pageNumber).width * zoom) / 2}
+            size={sizeOf(pageNumber)}
+            onMeasured={onMeasured}
+            drawHighlights={drawHighlights}
+            renderLayers={renderLayers}
+            pageColors={pageColors}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ScrollPageView;
@@ -0,0 +1,132 @@
+import React from 'react';
+import { FiChevronDown, FiChevronUp, FiSearch } from 'react-icons/fi';
+import { SearchHit } from '../utils/textSearch';
+
+interface SearchPanelProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  wholeWord: boolean;
+  onWholeWordChange: (wholeWord: boolean) => void;
+  hits: SearchHit[];
+  truncated: boolean;
+  activeIndex: number;
+  indexedPages: number;
+  totalPages: number;
+  onSelect: (index: number) => void;
+  onNext: () => void;
+  onPrev: () => void;
+  onClose: () => void;
+}
+
+const SearchPanel: React.FC<SearchPanelProps> = ({
+  query,
+  onQueryChange,
+  wholeWord,
+  onWholeWordChange,
+  hits,
+  truncated,
+  activeIndex,
+  indexedPages,
+  totalPages,
+  onSelect,
+  onNext,
+  onPrev,
+  onClose,
+}) => {
+  const indexing = indexedPages < totalPages;
+
+  return (
+    <div
+      className="fixed top-0 right-0 h-full w-80 z-40 flex flex-col"
+      style={{ background: '#fff', boxShadow: '0 0 10px #0002' }}
+    >
+      <div className="flex items-center justify-between p-4 border-b font-bold text-lg">
+        Search
+        <button onClick={onClose} className="text-gray-400 hover:text-blue-600">
+          &times;
+        </button>
+      </div>
+      <div className="p-4 border-b space-y-2">
+        <div className="relative">
+          <input
+            autoFocus
+            type="text"
+            value={query}
+            onChange={(e) => onQueryChange(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                if (e.shiftKey) onPrev();
+                else onNext();
+              } else if (e.key === 'Escape') {
+                onClose();
+              }
+            }}
+            placeholder="Search in book..."
+            className="w-full pl-8 pr-2 py-1 border rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-300"
+          />
+          <FiSearch className="absolute left-2 top-1/2 -translate-y-1/2 text-gray-400" />
+        </div>
+        <div className="flex items-center justify-between text-xs">
+          <label className="flex items-center gap-1 text-gray-600">
+            <input
+              type="checkbox"
+              checked={wholeWord}
+              onChange={(e) => onWholeWordChange(e.target.checked)}
+            />
+            Whole words
+          </label>
+          <div className="flex items-center gap-1">
+            <span className="text-gray-500">
+              {hits.length > 0
+                ? `${activeIndex + 1} / ${hits.length}${truncated ? '+' : ''}`
+                : query.trim()
+                  ? 'No results'
+                  : ''}
+            </span>
+            <button
+              onClick={onPrev}
+              disabled={hits.length === 0}
+              className="p-1 rounded hover:bg-gray-100 disabled:opacity-40"
+              title="Previous match (Shift+Enter)"
+            >
+              <FiChevronUp />
+            </button>
+            <button
+              onClick={onNext}
+              disabled={hits.length === 0}
+              className="p-1 rounded hover:bg-gray-100 disabled:opacity-40"
+              title="Next match (Enter)"
+            >
+              <FiChevronDown />
+            </button>
+          </div>
+        </div>
+        {indexing && (
+          <div className="text-xs text-gray-400">
+            Indexing pages {indexedPages} / {totalPages}...
+          </div>
+        )}
+      </div>
+      <div className="flex-1 overflow-auto p-2 space-y-1">
+        {hits.map((hit, index) => (
+          <button
+            key={`${hit.page}-${hit.ordinal}`}
+            onClick={() => onSelect(index)}
+            className={`w-full text-left rounded p-2 text-xs ${index === activeIndex ? 'bg-blue-100' : 'hover:bg-gray-50'}`}
+          >
+            <div className="font-semibold text-gray-700 mb-1">
+              Page {hit.page}
+            </div>
+            <div className="text-gray-600 line-clamp-2">
+              {hit.before}
+              <mark className="bg-yellow-200">{hit.match}</mark>
+              {hit.after}
+            </div>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SearchPanel;
@@ -3,19 +3,40 @@ import { IoPersonCircle, IoSettings } from 'react-icons/io5';
 import { CiLogout } from 'react-icons/ci';
 import { useAuth } from '../context/AuthContext';
 import { useUser } from '../context/UserContext';
+import { useSettings } from '../context/SettingsContext';
 import bookicon from '../assets/bookicon.png';
 import hearticon from '../assets/hearticon.png';
 import cloudicon from '../assets/cloudicon.png';
 import logo from '../assets/logo.png';
+import type { Section } from '../utils/routes';
+
+const labels = {
+  th: {
+    library: 'ชั้นหนังสือ',
+    mylist: 'ลิสต์ของฉัน',
+    mycloud: 'มายคลาวด์',
+    setting: 'การตั้งค่า',
+    logout: 'ออกจากระบบ',
+  },
+  en: {
+    library: 'Library',
+    mylist: 'My List',
+    mycloud: 'My Cloud',
+    setting: 'Settings',
+    logout: 'Log out',
+  },
+};
 
 interface SidebarProps {
-  currentPage: string;
-  onNavigate: (page: string) => void;
+  currentPage: Section;
+  onNavigate: (page: Section) => void;
 }
 
 const Sidebar: React.FC<SidebarProps> = ({ currentPage, onNavigate }) => {
   const { logout } = useAuth();
   const { user } = useUser();
+  const { settings } = useSettings();
+  const text = labels[settings.language];
   return (
     <div className="h-full w-64 bg-white  flex flex-col justify-between ">
       <div>
@@ -33,7 +54,7 @@ const Sidebar: React.FC<SidebarProps> = ({ currentPage, onNavigate }) => {
                 onClick={() => onNavigate('library')}
               >
                 <img src={bookicon} alt="ค้นหนังสือ" className="w-6 h-6 mr-2" />
-                ชั้นหนังสือ
+                {text.library}
               </button>
             </li>
             <li>
@@ -46,7 +67,7 @@ const Sidebar: React.FC<SidebarProps> = ({ currentPage, onNavigate }) => {
                   alt="ลิสต์ของฉัน"
                   className="w-6 h-6 mr-2"
                 />
-                ลิสต์ของฉัน
+                {text.mylist}
               </button>
             </li>
             <li>
@@ -55,7 +76,7 @@ const Sidebar: React.FC<SidebarProps> = ({ currentPage, onNavigate }) => {
                 onClick={() => onNavigate('mycloud')}
               >
                 <img src={cloudicon} alt="มายคลาวด์" className="w-6 h-6 mr-2" />
-                มายคลาวด์
+                {text.mycloud}
               </button>
             </li>
           </ul>
@@ -63,24 +84,32 @@ const Sidebar: React.FC<SidebarProps> = ({ currentPage, onNavigate }) => {
       </div>
       <div className="px-4 pb-6 flex flex-col items-center">
         <button
-          className="w-full flex items-center px-4 py-2 rounded hover:bg-gray-100 mt-2 text-gray-500 border-t border-gray-200 gap-2"
-          onClick={() => onNavigate('setting')}
+          className={`w-full flex items-center px-4 py-2 rounded mt-2 border-t border-gray-200 gap-2 ${currentPage === 'settings' ? 'bg-blue-100 text-blue-700' : 'hover:bg-gray-100 text-gray-500'}`}
+          onClick={() => onNavigate('settings')}
         >
-          <IoSettings className="text-gray-500 w-8 h-8" /> การตั้งค่า
+          <IoSettings className="text-gray-500 w-8 h-8" /> {text.setting}
         </button>
 
         <button
           className="w-full flex items-center px-4 py-2 rounded hover:bg-gray-100 mt-2 text-gray-500 border-t border-gray-200 gap-2"
           onClick={logout}
         >
-          <CiLogout className="text-gray-500 w-8 h-8" /> ออกจากระบบ
+          <CiLogout className="text-gray-500 w-8 h-8" /> {text.logout}
         </button>
 
         <a
           className="flex flex-row items-center mt-4 gap-2 cursor-pointer"
           onClick={() => onNavigate('profile')}
         >
-          <IoPersonCircle className="text-gray-400 w-8 h-8" />
+          {user?.avatar ? (
+            <img
+              src={user.avatar}
+              alt=""
+              className="w-8 h-8 rounded-full object-cover"
+            />
+          ) : (
+            <IoPersonCircle className="text-gray-400 w-8 h-8" />
+          )}
           <div className="flex flex-col  text-xs">
             <div>{user?.name ?? 'Guest'}</div>
             <div>{user?.email ?? ''}</div>
@@ -0,0 +1,81 @@
+import React, { useEffect, useRef } from 'react';
+import { TocEntry, findCurrentEntry } from '../hooks/usePdfOutline';
+
+interface TocSidebarProps {
+  entries: TocEntry[];
+  generated: boolean;
+  loading: boolean;
+  currentPage: number;
+  onJump: (page: number) => void;
+  onClose: () => void;
+}
+
+const TocSidebar: React.FC<TocSidebarProps> = ({
+  entries,
+  generated,
+  loading,
+  currentPage,
+  onJump,
+  onClose,
+}) => {
+  const currentIndex = findCurrentEntry(entries, currentPage);
+  const currentRef = useRef<HTMLButtonElement | null>(null);
+
+  // Keep the current chapter visible while reading
+  useEffect(() => {
+    currentRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [currentIndex]);
+
+  return (
+    <div
+      className="fixed top-0 left-0 h-full w-80 z-40 flex flex-col"
+      style={{ background: '#fff', boxShadow: '0 0 10px #0002' }}
+    >
+      <div className="flex items-center justify-between p-4 border-b font-bold text-lg">
+        Contents
+        <button onClick={onClose} className="text-gray-400 hover:text-blue-600">
+          &times;
+        </button>
+      </div>
+      {generated && !loading && (
+        <div className="px-4 py-2 text-xs text-gray-400 border-b">
+          This book has no table of contents. Showing page sections instead.
+        </div>
+      )}
+      <div className="flex-1 overflow-auto p-2">
+        {loading ? (
+          <div className="text-gray-400 text-center mt-8">Loading...</div>
+        ) : entries.length === 0 ? (
+          <div className="text-gray-400 text-center mt-8">No contents</div>
+        ) : (
+          entries.map((entry, index) => {
+            const isCurrent = index === currentIndex;
+            return (
+              <button
+                key={index}
+                ref={isCurrent ? currentRef : undefined}
+                disabled={entry.page === null}
+                onClick={() => entry.page !== null && onJump(entry.page)}
+                className={`w-full flex items-start justify-between gap-2 text-left rounded px-2 py-1.5 text-sm disabled:opacity-50 ${isCurrent ? 'bg-blue-100 text-blue-700' : 'text-gray-700 hover:bg-gray-50'}`}
+                style={{ paddingLeft: `${0.5 + entry.level}rem` }}
+              >
+                <span
+                  className={`${entry.bold ? 'font-semibold' : ''} ${entry.italic ? 'italic' : ''}`}
+                >
+                  {entry.title}
+                </span>
+                {entry.page !== null && (
+                  <span className="text-xs text-gray-400 shrink-0">
+                    {entry.page}
+                  </span>
+                )}
+              </button>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TocSidebar;
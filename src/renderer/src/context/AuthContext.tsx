@@ -1,26 +1,54 @@
 import {
   createContext,
+  useCallback,
   useContext,
   useEffect,
   useState,
   ReactNode,
 } from 'react';
+import toast from 'react-hot-toast';
 import { authService, apiClient } from '../services';
-import { useUser } from './UserContext';
+import { useUser, User } from './UserContext';
+import {
+  isUnverifiedAccount,
+  ProfileResponse,
+} from '../services/authService';
+
+// 'unverified' means the credentials were fine but the email still needs
+// to be confirmed with an OTP
+export type LoginResult = 'success' | 'failed' | 'unverified';
+
+// Accepts the login response too, which only has the id and name
+const toUser = (
+  profile: Pick<ProfileResponse, 'userId' | 'userName' | 'userLastName'> &
+    Partial<ProfileResponse>,
+): User => ({
+  id: profile.userId.toString(),
+  name: `${profile.userName} ${profile.userLastName ?? ''}`.trim(),
+  avatar: profile.avatarUrl ?? '',
+  email: profile.email ?? '',
+});
 
 interface AuthContextType {
   isAuthenticated: boolean;
   loading: boolean;
-  login: (userId: string, password: string) => Promise<boolean>;
+  login: (userId: string, password: string) => Promise<LoginResult>;
   register: (
     data: import('../services/authService').RegisterRequest,
   ) => Promise<boolean>;
   verifyEmail: (
     data: import('../services/authService').VerifyEmailRequest,
   ) => Promise<boolean>;
+  resendVerification: (
+    data: import('../services/authService').ResendVerificationRequest,
+  ) => Promise<boolean>;
   forgotPassword: (
     data: import('../services/authService').ForgotPasswordRequest,
   ) => Promise<boolean>;
+  // Resolves to the reset token, or null when the code is wrong or expired
+  verifyResetOtp: (
+    data: import('../services/authService').VerifyResetOtpRequest,
+  ) => Promise<string | null>;
   newPassword: (
     data: import('../services/authService').NewPasswordRequest,
   ) => Promise<boolean>;
@@ -28,18 +56,23 @@ interface AuthContextType {
     data: import('../services/authService').ChangePasswordRequest,
   ) => Promise<boolean>;
   logout: () => void;
+  // Reload the signed-in user's profile into UserContext
+  refreshProfile: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType>({
   isAuthenticated: false,
   loading: false,
-  login: async () => false,
+  login: async () => 'failed',
   register: async () => false,
   verifyEmail: async () => false,
+  resendVerification: async () => false,
   forgotPassword: async () => false,
+  verifyResetOtp: async () => null,
   newPassword: async () => false,
   changePassword: async () => false,
   logout: () => {},
+  refreshProfile: async () => {},
 });
 
 export function AuthProvider({ children }: { children: ReactNode }) {
@@ -47,32 +80,65 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [loading, setLoading] = useState<boolean>(true);
   const { setUser } = useUser();
 
-  // Attempt to load token from localStorage on mount
+  // Update the cached profile from the server. Best effort: the cached one
+  // stays if this fails.
+  const refreshProfile = useCallback(async (): Promise<void> => {
+    const response = await authService.getProfile();
+    if (response.success && response.data) {
+      setUser(toUser(response.data));
+    } else {
+      console.warn('[Auth] Failed to refresh profile:', response.error);
+    }
+  }, [setUser]);
+
+  // Restore the session kept by the main process on mount
   useEffect(() => {
-    apiClient.loadAuth();
-    const token = localStorage.getItem('auth_token');
-    setIsAuthenticated(!!token);
-    setLoading(false);
-  }, []);
+    apiClient
+      .loadAuth()
+      .then((authenticated) => {
+        setIsAuthenticated(authenticated);
+        if (authenticated) {
+          refreshProfile();
+        } else {
+          // Profile left over from a session that's gone
+          setUser(null);
+        }
+      })
+      .catch((error) => console.error('[Auth] Failed to restore session:', error))
+      .finally(() => setLoading(false));
+  }, [refreshProfile, setUser]);
+
+  // The API client signs out when the token expires and can't be renewed
+  useEffect(
+    () =>
+      apiClient.onSessionExpired(() => {
+        setIsAuthenticated(false);
+        setUser(null);
+        toast.error('Your session has expired. Please log in again.');
+      }),
+    [setUser],
+  );
 
-  const login = async (userId: string, password: string) => {
+  const login = async (
+    userId: string,
+    password: string,
+  ): Promise<LoginResult> => {
     setLoading(true);
     const response = await authService.login({ userId, password });
     if (response.success && response.data) {
-      apiClient.setToken(response.data.token);
-      apiClient.setUserId(response.data.userId.toString());
-      setUser({
-        id: response.data.userId.toString(),
-        name: `${response.data.userName} ${response.data.userLastName ?? ''}`.trim(),
-        avatar: '',
-        email: '',
-      });
+      await apiClient.setCredentials(
+        response.data.token,
+        response.data.userId.toString(),
+      );
+      setUser(toUser(response.data));
       setIsAuthenticated(true);
+      // The login response has no email or avatar
+      refreshProfile();
       setLoading(false);
-      return true;
+      return 'success';
     }
     setLoading(false);
-    return false;
+    return isUnverifiedAccount(response) ? 'unverified' : 'failed';
   };
 
   const register = async (
@@ -91,6 +157,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return res.success;
   };
 
+  const resendVerification = async (
+    data: import('../services/authService').ResendVerificationRequest,
+  ): Promise<boolean> => {
+    const res = await authService.resendVerification(data);
+    return res.success;
+  };
+
   const forgotPassword = async (
     data: import('../services/authService').ForgotPasswordRequest,
   ) => {
@@ -98,6 +171,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return res.success;
   };
 
+  const verifyResetOtp = async (
+    data: import('../services/authService').VerifyResetOtpRequest,
+  ): Promise<string | null> => {
+    const res = await authService.verifyResetOtp(data);
+    return res.success && res.data?.resetToken ? res.data.resetToken : null;
+  };
+
   const newPassword = async (
     data: import('../services/authService').NewPasswordRequest,
   ) => {
@@ -113,8 +193,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   const logout = () => {
-    authService.logout();
+    authService
+      .logout()
+      .catch((error) => console.error('[Auth] Failed to clear session:', error));
     setIsAuthenticated(false);
+    setUser(null);
   };
 
   return (
@@ -125,10 +208,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         login,
         register,
         verifyEmail,
+        resendVerification,
         forgotPassword,
+        verifyResetOtp,
         newPassword,
         changePassword,
         logout,
+        refreshProfile,
       }}
     >
       {children}
@@ -0,0 +1,128 @@
+import { useCallback, useEffect, useRef, useState, JSX, ReactNode } from 'react';
+import { NavigateOptions, RouterContext } from '../hooks/useRouter';
+import { DEFAULT_ROUTE, Route, parseRoute, routePath } from '../utils/routes';
+
+// Hash-based routing: the current screen lives in the URL after '#', and
+// every navigation is a window history entry, so back/forward just work.
+
+// What we keep in history.state for each entry
+interface HistoryEntry {
+  // Identifies the entry, e.g. to restore a list's search and scroll
+  key: string;
+  // Position in this window's history; 0 means there is nothing to go back to
+  index: number;
+  // Handed over by navigate(), e.g. the book that was clicked
+  state?: unknown;
+}
+
+const createKey = (): string => Math.random().toString(36).slice(2, 10);
+
+const currentEntry = (): HistoryEntry | null => {
+  const entry = window.history.state as HistoryEntry | null;
+  return entry && typeof entry.key === 'string' ? entry : null;
+};
+
+// Reads the route from the URL, fixing up the URL and history entry if
+// needed. `index` is used for entries we haven't seen before.
+const readLocation = (index: number): { route: Route; entry: HistoryEntry } => {
+  const parsed = parseRoute(window.location.hash);
+  const route = parsed ?? DEFAULT_ROUTE;
+  const entry = currentEntry() ?? { key: createKey(), index };
+  if (!parsed || !currentEntry()) {
+    window.history.replaceState(entry, '', `#${routePath(route)}`);
+  }
+  return { route, entry };
+};
+
+export function RouterProvider({
+  children,
+}: {
+  children: ReactNode;
+}): JSX.Element {
+  const [location, setLocation] = useState(() => readLocation(0));
+  const scrollContainerRef = useRef<HTMLDivElement | null>(null);
+  // For the listeners below, which are only registered once
+  const locationRef = useRef(location);
+  locationRef.current = location;
+
+  const navigate = useCallback(
+    (route: Route, { replace = false, state }: NavigateOptions = {}) => {
+      const current = locationRef.current;
+      const path = `#${routePath(route)}`;
+      if (!replace && path === window.location.hash) return;
+
+      const entry: HistoryEntry = replace
+        ? { ...current.entry, state }
+        : { key: createKey(), index: current.entry.index + 1, state };
+      if (replace) window.history.replaceState(entry, '', path);
+      else window.history.pushState(entry, '', path);
+      setLocation({ route, entry });
+    },
+    [],
+  );
+
+  const back = useCallback(
+    (fallback?: Route) => {
+      if (locationRef.current.entry.index > 0) window.history.back();
+      else if (fallback) navigate(fallback, { replace: true });
+    },
+    [navigate],
+  );
+
+  const forward = useCallback(() => window.history.forward(), []);
+
+  useEffect(() => {
+    // Back/forward, or the hash being changed by hand (a new entry then)
+    const handlePopState = (): void => {
+      setLocation(readLocation(locationRef.current.entry.index + 1));
+    };
+
+    // Mouse back/forward buttons
+    const handleMouseUp = (e: MouseEvent): void => {
+      if (e.button === 3) {
+        e.preventDefault();
+        back();
+      } else if (e.button === 4) {
+        e.preventDefault();
+        forward();
+      }
+    };
+
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      if (!e.altKey || e.ctrlKey || e.metaKey || e.shiftKey) return;
+      if (e.key === 'ArrowLeft') {
+        e.preventDefault();
+        back();
+      } else if (e.key === 'ArrowRight') {
+        e.preventDefault();
+        forward();
+      }
+    };
+
+    window.addEventListener('popstate', handlePopState);
+    window.addEventListener('mouseup', handleMouseUp);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('popstate', handlePopState);
+      window.removeEventListener('mouseup', handleMouseUp);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [back, forward]);
+
+  return (
+    <RouterContext.Provider
+      value={{
+        route: location.route,
+        entryKey: location.entry.key,
+        state: location.entry.state,
+        canGoBack: location.entry.index > 0,
+        navigate,
+        back,
+        forward,
+        scrollContainerRef,
+      }}
+    >
+      {children}
+    </RouterContext.Provider>
+  );
+}
@@ -1,30 +1,214 @@
-import React, { createContext, useContext, useState, ReactNode } from 'react';
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+  ReactNode,
+} from 'react';
+import type {
+  PageColors,
+  PageMode,
+  ReaderTheme,
+} from '../utils/readerOptions';
+import type { ZoomMode } from '../hooks/useZoom';
 
+export type Language = 'th' | 'en';
+
+// Reader preferences. The global ones apply to every book; a book can
+// override any of them from the reader's own settings panel.
 export interface ReaderSettings {
   fontSize: number;
   font: string;
   bgColor: string;
-  singlePage: boolean;
+  // Picked with the colour input; takes precedence over bgColor
+  customBg: string;
+  // How the PDF pages themselves are coloured
+  theme: ReaderTheme;
+  customThemeColors: PageColors;
+  pageMode: PageMode;
+  zoomMode: ZoomMode;
+  // Zoom used when zoomMode is 'custom'
+  customZoom: number;
+}
+
+export interface AppSettings {
+  reader: ReaderSettings;
+  // Per-book overrides, keyed by book id
+  bookOverrides: Record<string, Partial<ReaderSettings>>;
+  language: Language;
 }
 
-const mockSettings: ReaderSettings = {
-  fontSize: 16,
-  font: 'inherit',
-  bgColor: '#fff',
-  singlePage: false,
+const defaultSettings: AppSettings = {
+  reader: {
+    fontSize: 16,
+    font: 'inherit',
+    bgColor: '#fff',
+    customBg: '',
+    theme: 'light',
+    customThemeColors: { background: '#1e1e1e', foreground: '#e0e0e0' },
+    pageMode: 'single',
+    zoomMode: 'fit-width',
+    customZoom: 1,
+  },
+  bookOverrides: {},
+  language: 'th',
+};
+
+// Used outside Electron, where the main process settings file isn't available
+const BROWSER_STORAGE_KEY = 'app-settings';
+
+const loadSettings = async (): Promise<Partial<AppSettings>> => {
+  if (window.api) {
+    return (await window.api.settings.get()) as Partial<AppSettings>;
+  }
+  const raw = localStorage.getItem(BROWSER_STORAGE_KEY);
+  return raw ? JSON.parse(raw) : {};
+};
+
+const saveSettings = async (settings: AppSettings): Promise<void> => {
+  if (window.api) {
+    await window.api.settings.set({ ...settings });
+  } else {
+    localStorage.setItem(BROWSER_STORAGE_KEY, JSON.stringify(settings));
+  }
 };
 
 const SettingsContext = createContext<{
-  settings: ReaderSettings;
-  setSettings: React.Dispatch<React.SetStateAction<ReaderSettings>>;
-}>({ settings: mockSettings, setSettings: () => {} });
+  settings: AppSettings;
+  loaded: boolean;
+  updateReaderSettings: (patch: Partial<ReaderSettings>) => void;
+  getBookReaderSettings: (bookId: number) => ReaderSettings;
+  updateBookReaderSettings: (
+    bookId: number,
+    patch: Partial<ReaderSettings>,
+  ) => void;
+  resetBookReaderSettings: (bookId?: number) => void;
+  setLanguage: (language: Language) => void;
+}>({
+  settings: defaultSettings,
+  loaded: false,
+  updateReaderSettings: () => {},
+  getBookReaderSettings: () => defaultSettings.reader,
+  updateBookReaderSettings: () => {},
+  resetBookReaderSettings: () => {},
+  setLanguage: () => {},
+});
 
 export const useSettings = () => useContext(SettingsContext);
 
 export function SettingsProvider({ children }: { children: ReactNode }) {
-  const [settings, setSettings] = useState<ReaderSettings>(mockSettings);
+  const [settings, setSettings] = useState<AppSettings>(defaultSettings);
+  const [loaded, setLoaded] = useState(false);
+  // Changes made before the stored settings arrive, replayed on top of them;
+  // null once loaded
+  const pendingChangesRef = useRef<
+    ((current: AppSettings) => AppSettings)[] | null
+  >([]);
+  // Whether there are changes the store hasn't seen yet
+  const dirtyRef = useRef(false);
+
+  useEffect(() => {
+    loadSettings()
+      .then((stored) => {
+        const changes = pendingChangesRef.current ?? [];
+        setSettings(
+          changes.reduce((current, change) => change(current), {
+            ...defaultSettings,
+            ...stored,
+            reader: { ...defaultSettings.reader, ...stored?.reader },
+            bookOverrides: stored?.bookOverrides ?? {},
+          }),
+        );
+      })
+      .catch((error) =>
+        console.error('[Settings] Failed to load settings:', error),
+      )
+      .finally(() => {
+        pendingChangesRef.current = null;
+        setLoaded(true);
+      });
+  }, []);
+
+  // Saving waits for the load, so it never writes over settings it hasn't read
+  useEffect(() => {
+    if (!loaded || !dirtyRef.current) return;
+    dirtyRef.current = false;
+    saveSettings(settings).catch((error) =>
+      console.error('[Settings] Failed to save settings:', error),
+    );
+  }, [settings, loaded]);
+
+  useEffect(() => {
+    document.documentElement.lang = settings.language;
+  }, [settings.language]);
+
+  const update = useCallback((change: (current: AppSettings) => AppSettings) => {
+    pendingChangesRef.current?.push(change);
+    dirtyRef.current = true;
+    setSettings(change);
+  }, []);
+
+  const updateReaderSettings = useCallback(
+    (patch: Partial<ReaderSettings>) =>
+      update((current) => ({
+        ...current,
+        reader: { ...current.reader, ...patch },
+      })),
+    [update],
+  );
+
+  // Global preferences with the book's overrides on top
+  const getBookReaderSettings = useCallback(
+    (bookId: number): ReaderSettings => ({
+      ...settings.reader,
+      ...settings.bookOverrides[bookId],
+    }),
+    [settings.reader, settings.bookOverrides],
+  );
+
+  const updateBookReaderSettings = useCallback(
+    (bookId: number, patch: Partial<ReaderSettings>) =>
+      update((current) => ({
+        ...current,
+        bookOverrides: {
+          ...current.bookOverrides,
+          [bookId]: { ...current.bookOverrides[bookId], ...patch },
+        },
+      })),
+    [update],
+  );
+
+  // Drops one book's overrides, or every book's when no id is given
+  const resetBookReaderSettings = useCallback(
+    (bookId?: number) =>
+      update((current) => {
+        if (bookId === undefined) return { ...current, bookOverrides: {} };
+        const bookOverrides = { ...current.bookOverrides };
+        delete bookOverrides[bookId];
+        return { ...current, bookOverrides };
+      }),
+    [update],
+  );
+
+  const setLanguage = useCallback(
+    (language: Language) => update((current) => ({ ...current, language })),
+    [update],
+  );
+
   return (
-    <SettingsContext.Provider value={{ settings, setSettings }}>
+    <SettingsContext.Provider
+      value={{
+        settings,
+        loaded,
+        updateReaderSettings,
+        getBookReaderSettings,
+        updateBookReaderSettings,
+        resetBookReaderSettings,
+        setLanguage,
+      }}
+    >
       {children}
     </SettingsContext.Provider>
   );
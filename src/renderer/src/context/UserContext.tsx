@@ -1,6 +1,6 @@
 import * as React from 'react';
 
-const { createContext, useContext, useState } = React;
+const { createContext, useCallback, useContext, useState } = React;
 type ReactNode = React.ReactNode;
 
 export interface User {
@@ -18,10 +18,32 @@ const UserContext = createContext<{
   setUser: () => {},
 });
 
+// Last known profile, so the UI can show who's signed in straight after a
+// restart, before the profile has been fetched again
+const STORAGE_KEY = 'user_profile';
+
+const loadUser = (): User | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as User) : null;
+  } catch {
+    return null;
+  }
+};
+
 export const useUser = () => useContext(UserContext);
 
 export function UserProvider({ children }: { children: ReactNode }) {
-  const [user, setUser] = useState<User | null>(null);
+  const [user, setUserState] = useState<User | null>(loadUser);
+
+  const setUser = useCallback((next: User | null) => {
+    setUserState(next);
+    if (next) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  }, []);
 
   return (
     <UserContext.Provider value={{ user, setUser }}>
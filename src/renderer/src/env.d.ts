@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Serve not-yet-deployed endpoints from services/mockBackend
+  readonly VITE_USE_MOCK_API?: string
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}
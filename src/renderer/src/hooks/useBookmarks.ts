@@ -0,0 +1,170 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { bookService } from '../services';
+import { Bookmark } from '../services/bookService';
+import localStore from '../services/localStore';
+
+const STORE_SCOPE = 'bookmarks';
+
+// Wait a moment after the last edit so quick changes go up as one request
+const SYNC_DEBOUNCE_MS = 1500;
+
+interface StoredBookmarks {
+  bookmarks: Bookmark[];
+  // True while local edits haven't reached the server yet
+  dirty: boolean;
+}
+
+interface BookmarksHook {
+  bookmarks: Bookmark[];
+  isBookmarked: (page: number) => boolean;
+  toggleBookmark: (page: number) => void;
+  removeBookmark: (page: number) => void;
+  editBookmark: (page: number, note: string) => void;
+}
+
+const useBookmarks = (bookId: number): BookmarksHook => {
+  const [bookmarks, setBookmarks] = useState<Bookmark[]>([]);
+  const syncTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const pushToServer = useCallback(async (): Promise<void> => {
+    const stored = localStore.read<StoredBookmarks | null>(
+      STORE_SCOPE,
+      bookId,
+      null,
+    );
+    if (!stored?.dirty) return;
+
+    const res = await bookService.saveBookmarks(bookId, stored.bookmarks);
+    if (res.success) {
+      // Only mark clean if nothing changed while the request was in flight
+      const latest = localStore.read<StoredBookmarks | null>(
+        STORE_SCOPE,
+        bookId,
+        null,
+      );
+      if (
+        latest &&
+        JSON.stringify(latest.bookmarks) === JSON.stringify(stored.bookmarks)
+      ) {
+        localStore.write(STORE_SCOPE, bookId, { ...latest, dirty: false });
+      }
+    } else {
+      console.error('[Bookmarks] Failed to sync bookmarks:', res.error);
+    }
+  }, [bookId]);
+
+  // Load local bookmarks, then reconcile with the server: unsynced local
+  // edits win, otherwise the server copy replaces ours.
+  useEffect(() => {
+    let cancelled = false;
+    const stored = localStore.read<StoredBookmarks>(STORE_SCOPE, bookId, {
+      bookmarks: [],
+      dirty: false,
+    });
+    setBookmarks(stored.bookmarks);
+
+    const sync = async (): Promise<void> => {
+      if (stored.dirty) {
+        await pushToServer();
+        return;
+      }
+      const res = await bookService.getBookmarks(bookId);
+      if (cancelled || !res.success || !Array.isArray(res.data)) return;
+      // Don't clobber edits made while the request was in flight
+      const latest = localStore.read<StoredBookmarks | null>(
+        STORE_SCOPE,
+        bookId,
+        null,
+      );
+      if (latest?.dirty) return;
+      localStore.write(STORE_SCOPE, bookId, {
+        bookmarks: res.data,
+        dirty: false,
+      });
+      setBookmarks(res.data);
+    };
+    sync();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [bookId, pushToServer]);
+
+  // Flush pending edits when leaving the book
+  useEffect(() => {
+    return () => {
+      if (syncTimerRef.current) {
+        clearTimeout(syncTimerRef.current);
+        syncTimerRef.current = null;
+        pushToServer();
+      }
+    };
+  }, [pushToServer]);
+
+  const update = useCallback(
+    (change: (current: Bookmark[]) => Bookmark[]) => {
+      setBookmarks((current) => {
+        const next = change(current);
+        localStore.write(STORE_SCOPE, bookId, {
+          bookmarks: next,
+          dirty: true,
+        });
+        return next;
+      });
+
+      if (syncTimerRef.current) clearTimeout(syncTimerRef.current);
+      syncTimerRef.current = setTimeout(() => {
+        syncTimerRef.current = null;
+        pushToServer();
+      }, SYNC_DEBOUNCE_MS);
+    },
+    [bookId, pushToServer],
+  );
+
+  const isBookmarked = useCallback(
+    (page: number) => bookmarks.some((bm) => bm.page === page),
+    [bookmarks],
+  );
+
+  const toggleBookmark = useCallback(
+    (page: number) => {
+      update((current) => {
+        if (current.some((bm) => bm.page === page)) {
+          return current.filter((bm) => bm.page !== page);
+        }
+        const now = new Date().toISOString();
+        return [...current, { page, note: '', createdAt: now, updatedAt: now }];
+      });
+    },
+    [update],
+  );
+
+  const removeBookmark = useCallback(
+    (page: number) => {
+      update((current) => current.filter((bm) => bm.page !== page));
+    },
+    [update],
+  );
+
+  const editBookmark = useCallback(
+    (page: number, note: string) => {
+      const now = new Date().toISOString();
+      update((current) =>
+        current.map((bm) =>
+          bm.page === page ? { ...bm, note, updatedAt: now } : bm,
+        ),
+      );
+    },
+    [update],
+  );
+
+  return {
+    bookmarks,
+    isBookmarked,
+    toggleBookmark,
+    removeBookmark,
+    editBookmark,
+  };
+};
+
+export { useBookmarks };
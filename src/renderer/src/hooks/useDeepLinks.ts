@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { useRouter } from './useRouter';
+import { parseRoute } from '../utils/routes';
+
+// Opens booksiam:// links handed over by the main process. A link that
+// arrives before login waits until the user is signed in.
+const useDeepLinks = (isAuthenticated: boolean): void => {
+  const { navigate } = useRouter();
+  const [pendingPath, setPendingPath] = useState<string | null>(null);
+
+  useEffect(() => {
+    const deepLinks = window.api?.deepLinks;
+    if (!deepLinks) return;
+    const take = (): void => {
+      deepLinks.take().then((path) => {
+        if (path) setPendingPath(path);
+      });
+    };
+    // The link the app was launched with, if any
+    take();
+    return deepLinks.onReceived(take);
+  }, []);
+
+  useEffect(() => {
+    if (!pendingPath || !isAuthenticated) return;
+    setPendingPath(null);
+    const route = parseRoute(pendingPath);
+    if (route) {
+      navigate(route);
+    } else {
+      console.warn('[DeepLinks] Unknown link path:', pendingPath);
+      toast.error('This link could not be opened');
+    }
+  }, [pendingPath, isAuthenticated, navigate]);
+};
+
+export { useDeepLinks };
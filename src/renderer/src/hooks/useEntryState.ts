@@ -0,0 +1,74 @@
+import { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { useRouter } from './useRouter';
+
+// State that belongs to a history entry rather than to a mounted screen, so
+// going back to a list finds the search, filters and scroll position it was
+// left with. Only kept for the lifetime of the window.
+const entryMemory = new Map<string, Map<string, unknown>>();
+
+const SCROLL_KEY = 'scrollTop';
+
+const readEntry = <T>(entryKey: string, name: string, fallback: T): T => {
+  const memory = entryMemory.get(entryKey);
+  return memory && memory.has(name) ? (memory.get(name) as T) : fallback;
+};
+
+const writeEntry = (entryKey: string, name: string, value: unknown): void => {
+  let memory = entryMemory.get(entryKey);
+  if (!memory) {
+    memory = new Map();
+    entryMemory.set(entryKey, memory);
+  }
+  memory.set(name, value);
+};
+
+// Like useState, but remembered for the current history entry
+const useEntryState = <T>(
+  name: string,
+  initial: T,
+): [T, (value: T) => void] => {
+  const { entryKey } = useRouter();
+  const [value, setValue] = useState<T>(() =>
+    readEntry(entryKey, name, initial),
+  );
+
+  const update = useCallback(
+    (next: T) => {
+      setValue(next);
+      writeEntry(entryKey, name, next);
+    },
+    [entryKey, name],
+  );
+
+  return [value, update];
+};
+
+// Records how far the screen is scrolled and scrolls back there when the
+// entry is revisited. Pass ready once the content has loaded, otherwise
+// there is nothing to scroll yet.
+const useScrollRestoration = (ready: boolean): void => {
+  const { entryKey, scrollContainerRef } = useRouter();
+  const restoredRef = useRef(false);
+
+  useLayoutEffect(() => {
+    const container = scrollContainerRef.current;
+    if (!ready || restoredRef.current || !container) return;
+    restoredRef.current = true;
+    container.scrollTop = readEntry(entryKey, SCROLL_KEY, 0);
+  }, [ready, entryKey, scrollContainerRef]);
+
+  useEffect(() => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+    const handleScroll = (): void => {
+      // Don't overwrite the saved position while the content is loading
+      if (restoredRef.current) {
+        writeEntry(entryKey, SCROLL_KEY, container.scrollTop);
+      }
+    };
+    container.addEventListener('scroll', handleScroll, { passive: true });
+    return () => container.removeEventListener('scroll', handleScroll);
+  }, [entryKey, scrollContainerRef]);
+};
+
+export { useEntryState, useScrollRestoration };
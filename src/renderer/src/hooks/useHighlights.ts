@@ -0,0 +1,184 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { bookService } from '../services';
+import { Highlight, HighlightRect } from '../services/bookService';
+import localStore from '../services/localStore';
+
+const STORE_SCOPE = 'highlights';
+
+// Wait a moment after the last edit so quick changes go up as one request
+const SYNC_DEBOUNCE_MS = 1500;
+
+export const HIGHLIGHT_COLORS = [
+  { label: 'Yellow', value: '#fde047' },
+  { label: 'Green', value: '#86efac' },
+  { label: 'Blue', value: '#93c5fd' },
+  { label: 'Pink', value: '#f9a8d4' },
+];
+
+interface StoredHighlights {
+  highlights: Highlight[];
+  // True while local edits haven't reached the server yet
+  dirty: boolean;
+}
+
+interface HighlightsHook {
+  highlights: Highlight[];
+  addHighlight: (
+    page: number,
+    text: string,
+    rects: HighlightRect[],
+    color: string,
+  ) => void;
+  removeHighlight: (id: string) => void;
+  editHighlight: (
+    id: string,
+    changes: Partial<Pick<Highlight, 'note' | 'color'>>,
+  ) => void;
+}
+
+// Highlights live in local storage first. Syncing is best effort: if the
+// server doesn't accept them they stay on this device and are retried the
+// next time the book is opened.
+const useHighlights = (bookId: number): HighlightsHook => {
+  const [highlights, setHighlights] = useState<Highlight[]>([]);
+  const syncTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const pushToServer = useCallback(async (): Promise<void> => {
+    const stored = localStore.read<StoredHighlights | null>(
+      STORE_SCOPE,
+      bookId,
+      null,
+    );
+    if (!stored?.dirty) return;
+
+    const res = await bookService.saveHighlights(bookId, stored.highlights);
+    if (res.success) {
+      // Only mark clean if nothing changed while the request was in flight
+      const latest = localStore.read<StoredHighlights | null>(
+        STORE_SCOPE,
+        bookId,
+        null,
+      );
+      if (
+        latest &&
+        JSON.stringify(latest.highlights) ===
+          JSON.stringify(stored.highlights)
+      ) {
+        localStore.write(STORE_SCOPE, bookId, { ...latest, dirty: false });
+      }
+    } else {
+      console.warn('[Highlights] Highlights kept on this device:', res.error);
+    }
+  }, [bookId]);
+
+  // Load local highlights, then reconcile with the server: unsynced local
+  // edits win, otherwise the server copy replaces ours.
+  useEffect(() => {
+    let cancelled = false;
+    const stored = localStore.read<StoredHighlights>(STORE_SCOPE, bookId, {
+      highlights: [],
+      dirty: false,
+    });
+    setHighlights(stored.highlights);
+
+    const sync = async (): Promise<void> => {
+      if (stored.dirty) {
+        await pushToServer();
+        return;
+      }
+      const res = await bookService.getHighlights(bookId);
+      if (cancelled || !res.success || !Array.isArray(res.data)) return;
+      // Don't clobber edits made while the request was in flight
+      const latest = localStore.read<StoredHighlights | null>(
+        STORE_SCOPE,
+        bookId,
+        null,
+      );
+      if (latest?.dirty) return;
+      localStore.write(STORE_SCOPE, bookId, {
+        highlights: res.data,
+        dirty: false,
+      });
+      setHighlights(res.data);
+    };
+    sync();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [bookId, pushToServer]);
+
+  // Flush pending edits when leaving the book
+  useEffect(() => {
+    return () => {
+      if (syncTimerRef.current) {
+        clearTimeout(syncTimerRef.current);
+        syncTimerRef.current = null;
+        pushToServer();
+      }
+    };
+  }, [pushToServer]);
+
+  const update = useCallback(
+    (change: (current: Highlight[]) => Highlight[]) => {
+      setHighlights((current) => {
+        const next = change(current);
+        localStore.write(STORE_SCOPE, bookId, {
+          highlights: next,
+          dirty: true,
+        });
+        return next;
+      });
+
+      if (syncTimerRef.current) clearTimeout(syncTimerRef.current);
+      syncTimerRef.current = setTimeout(() => {
+        syncTimerRef.current = null;
+        pushToServer();
+      }, SYNC_DEBOUNCE_MS);
+    },
+    [bookId, pushToServer],
+  );
+
+  const addHighlight = useCallback(
+    (page: number, text: string, rects: HighlightRect[], color: string) => {
+      const now = new Date().toISOString();
+      update((current) => [
+        ...current,
+        {
+          id: crypto.randomUUID(),
+          page,
+          text,
+          rects,
+          color,
+          note: '',
+          createdAt: now,
+          updatedAt: now,
+        },
+      ]);
+    },
+    [update],
+  );
+
+  const removeHighlight = useCallback(
+    (id: string) => {
+      update((current) => current.filter((hl) => hl.id !== id));
+    },
+    [update],
+  );
+
+  const editHighlight = useCallback(
+    (id: string, changes: Partial<Pick<Highlight, 'note' | 'color'>>) => {
+      const now = new Date().toISOString();
+      update((current) =>
+        current.map((hl) =>
+          hl.id === id ? { ...hl, ...changes, updatedAt: now } : hl,
+        ),
+      );
+    },
+    [update],
+  );
+
+  return { highlights, addHighlight, removeHighlight, editHighlight };
+};
+
+export { useHighlights };
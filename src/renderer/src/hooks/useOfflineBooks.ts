@@ -0,0 +1,96 @@
+import { useCallback, useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { bookService } from '../services';
+import { Book } from '../services/bookService';
+import { offlineMeta } from '../utils/offlineBooks';
+
+interface OfflineBooksHook {
+  offlineBookIds: Set<number>;
+  downloadingBookIds: Set<number>;
+  downloadForOffline: (book: Book) => Promise<void>;
+  removeOfflineCopy: (book: Book) => Promise<void>;
+}
+
+// Tracks which books have an encrypted offline copy in the main process cache
+const useOfflineBooks = (): OfflineBooksHook => {
+  const [offlineBookIds, setOfflineBookIds] = useState<Set<number>>(new Set());
+  const [downloadingBookIds, setDownloadingBookIds] = useState<Set<number>>(
+    new Set(),
+  );
+
+  useEffect(() => {
+    const loadOfflineBooks = async (): Promise<void> => {
+      if (!window.api) return;
+      try {
+        const cached = await window.api.books.listOffline();
+        setOfflineBookIds(new Set(cached.map((entry) => entry.bookId)));
+      } catch (error) {
+        console.error('[OfflineBooks] Failed to list offline books:', error);
+      }
+    };
+    loadOfflineBooks();
+  }, []);
+
+  const setDownloading = (bookId: number, downloading: boolean): void => {
+    setDownloadingBookIds((prev) => {
+      const next = new Set(prev);
+      if (downloading) next.add(bookId);
+      else next.delete(bookId);
+      return next;
+    });
+  };
+
+  const downloadForOffline = useCallback(async (book: Book) => {
+    if (!window.api) {
+      toast.error('Offline reading is only available in the desktop app');
+      return;
+    }
+
+    setDownloading(book.bookId, true);
+    const toastId = toast.loading(`กำลังดาวน์โหลด ${book.bookName}...`);
+    try {
+      const details = await bookService.getBookDetails(book.bookId);
+      const bookUrl = details.success ? details.data?.bookUrl : undefined;
+      if (!bookUrl) throw new Error(details.error || 'No book URL found');
+
+      const result = await window.api.books.downloadOffline(
+        offlineMeta(book),
+        bookUrl,
+      );
+      if (!result.success) throw new Error(result.error);
+
+      setOfflineBookIds((prev) => new Set(prev).add(book.bookId));
+      toast.success('ดาวน์โหลดสำหรับอ่านออฟไลน์แล้ว', { id: toastId });
+    } catch (error) {
+      console.error('[OfflineBooks] Download failed:', error);
+      toast.error('ไม่สามารถดาวน์โหลดได้', { id: toastId });
+    } finally {
+      setDownloading(book.bookId, false);
+    }
+  }, []);
+
+  const removeOfflineCopy = useCallback(async (book: Book) => {
+    if (!window.api) return;
+    try {
+      await window.api.books.removeOffline(book.bookId);
+      setOfflineBookIds((prev) => {
+        const next = new Set(prev);
+        next.delete(book.bookId);
+        return next;
+      });
+      toast.success('ลบไฟล์ออฟไลน์แล้ว');
+    } catch (error) {
+      console.error('[OfflineBooks] Failed to remove offline copy:', error);
+      toast.error('ไม่สามารถลบไฟล์ออฟไลน์ได้');
+    }
+  }, []);
+
+  return {
+    offlineBookIds,
+    downloadingBookIds,
+    downloadForOffline,
+    removeOfflineCopy,
+  };
+};
+
+export { useOfflineBooks };
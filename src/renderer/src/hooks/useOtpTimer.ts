@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useState } from 'react';
+
+// How long a code stays valid after it's sent
+const OTP_TTL_SECONDS = 10 * 60;
+// Minimum wait between resends
+const RESEND_COOLDOWN_SECONDS = 60;
+
+interface OtpTimerHook {
+  // Whether a code has been sent at all
+  sent: boolean;
+  // Seconds left before the code expires / a new one can be requested
+  expiresIn: number;
+  resendIn: number;
+  expired: boolean;
+  // Restart both clocks after a code has been sent
+  markSent: () => void;
+}
+
+const formatCountdown = (seconds: number): string =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+// Expiry and resend countdowns for an emailed one-time code
+const useOtpTimer = (sentOnStart: boolean): OtpTimerHook => {
+  const [sentAt, setSentAt] = useState<number | null>(
+    sentOnStart ? Date.now() : null,
+  );
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (sentAt === null) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [sentAt]);
+
+  const markSent = useCallback(() => {
+    const time = Date.now();
+    setSentAt(time);
+    setNow(time);
+  }, []);
+
+  const elapsed =
+    sentAt === null ? Infinity : Math.floor((now - sentAt) / 1000);
+  const expiresIn = Math.max(0, OTP_TTL_SECONDS - elapsed);
+
+  return {
+    sent: sentAt !== null,
+    expiresIn,
+    resendIn: Math.max(0, RESEND_COOLDOWN_SECONDS - elapsed),
+    expired: sentAt !== null && expiresIn === 0,
+    markSent,
+  };
+};
+
+export { useOtpTimer, formatCountdown };
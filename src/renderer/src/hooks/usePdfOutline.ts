@@ -0,0 +1,134 @@
+import { useEffect, useState } from 'react';
+import * as pdfjsLib from 'pdfjs-dist';
+import { resolveDestinationPage } from '../utils/pdfLinks';
+
+// Size of each section in the list generated for PDFs without an outline
+const GENERATED_SECTION_SIZE = 10;
+
+export interface TocEntry {
+  title: string;
+  // 1-based page, or null when the destination can't be resolved
+  page: number | null;
+  level: number;
+  bold: boolean;
+  italic: boolean;
+}
+
+interface PdfOutlineHook {
+  entries: TocEntry[];
+  // True when the entries were generated because the PDF has no outline
+  generated: boolean;
+  loading: boolean;
+}
+
+type OutlineNode = Awaited<
+  ReturnType<pdfjsLib.PDFDocumentProxy['getOutline']>
+>[number];
+
+const flattenOutline = async (
+  pdf: pdfjsLib.PDFDocumentProxy,
+  nodes: OutlineNode[],
+  level = 0,
+): Promise<TocEntry[]> => {
+  const entries: TocEntry[] = [];
+  for (const node of nodes) {
+    entries.push({
+      title: node.title.trim() || 'Untitled',
+      page: await resolveDestinationPage(pdf, node.dest),
+      level,
+      bold: node.bold,
+      italic: node.italic,
+    });
+    if (node.items?.length) {
+      entries.push(...(await flattenOutline(pdf, node.items, level + 1)));
+    }
+  }
+  return entries;
+};
+
+/**
+ * Fallback list: one entry per block of pages, labelled with the
+ * document's page labels when it has them
+ */
+const generateEntries = async (
+  pdf: pdfjsLib.PDFDocumentProxy,
+): Promise<TocEntry[]> => {
+  const labels = await pdf.getPageLabels().catch(() => null);
+  const label = (page: number): string => labels?.[page - 1] || String(page);
+
+  const entries: TocEntry[] = [];
+  for (let start = 1; start <= pdf.numPages; start += GENERATED_SECTION_SIZE) {
+    const end = Math.min(start + GENERATED_SECTION_SIZE - 1, pdf.numPages);
+    entries.push({
+      title:
+        start === end
+          ? `Page ${label(start)}`
+          : `Pages ${label(start)}–${label(end)}`,
+      page: start,
+      level: 0,
+      bold: false,
+      italic: false,
+    });
+  }
+  return entries;
+};
+
+/**
+ * Index of the entry for the chapter containing `page`: the last entry,
+ * in reading order, that starts on or before it
+ */
+export const findCurrentEntry = (entries: TocEntry[], page: number): number => {
+  let current = -1;
+  let currentPage = 0;
+  entries.forEach((entry, index) => {
+    if (entry.page !== null && entry.page <= page && entry.page >= currentPage) {
+      current = index;
+      currentPage = entry.page;
+    }
+  });
+  return current;
+};
+
+const usePdfOutline = (
+  pdf: pdfjsLib.PDFDocumentProxy | null,
+): PdfOutlineHook => {
+  const [entries, setEntries] = useState<TocEntry[]>([]);
+  const [generated, setGenerated] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!pdf) {
+      setEntries([]);
+      return;
+    }
+
+    let cancelled = false;
+    const loadOutline = async (): Promise<void> => {
+      setLoading(true);
+      try {
+        const outline = await pdf.getOutline().catch(() => null);
+        const fromOutline = outline?.length
+          ? await flattenOutline(pdf, outline)
+          : [];
+        const useOutline = fromOutline.some((entry) => entry.page !== null);
+        const result = useOutline ? fromOutline : await generateEntries(pdf);
+        if (cancelled) return;
+        setEntries(result);
+        setGenerated(!useOutline);
+      } catch (error) {
+        console.error('[Outline] Failed to load table of contents:', error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    loadOutline();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pdf]);
+
+  return { entries, generated, loading };
+};
+
+export { usePdfOutline };
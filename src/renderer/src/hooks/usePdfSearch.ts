@@ -0,0 +1,298 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import * as pdfjsLib from 'pdfjs-dist';
+import type { TextContent, TextItem } from 'pdfjs-dist/types/src/display/api';
+import type {
+  SearchWorkerRequest,
+  SearchWorkerResponse,
+} from '../workers/searchIndex.worker';
+import {
+  SearchHit,
+  buildPageText,
+  findMatches,
+  foldText,
+  normalizeText,
+  wordBoundaries,
+} from '../utils/textSearch';
+
+// Pages are extracted in batches so the index fills up progressively
+const INDEX_BATCH_SIZE = 10;
+
+const HIGHLIGHT_COLOR = 'rgba(255, 213, 0, 0.4)';
+const ACTIVE_HIGHLIGHT_COLOR = 'rgba(255, 120, 0, 0.5)';
+
+interface IndexingProgress {
+  done: number;
+  total: number;
+}
+
+interface PdfSearchHook {
+  query: string;
+  setQuery: (query: string) => void;
+  wholeWord: boolean;
+  setWholeWord: (wholeWord: boolean) => void;
+  hits: SearchHit[];
+  truncated: boolean;
+  activeIndex: number;
+  selectHit: (index: number) => void;
+  nextHit: () => void;
+  prevHit: () => void;
+  progress: IndexingProgress;
+  startIndexing: () => void;
+  drawHighlights: (
+    context: CanvasRenderingContext2D,
+    pageNumber: number,
+    viewport: pdfjsLib.PageViewport,
+    offsetX?: number,
+  ) => Promise<void>;
+}
+
+// Hits stay the same as long as the query does and no new page matched
+const sameHits = (a: SearchHit[], b: SearchHit[]): boolean =>
+  a.length === b.length &&
+  a.every(
+    (hit, i) =>
+      hit.page === b[i].page &&
+      hit.ordinal === b[i].ordinal &&
+      hit.match === b[i].match,
+  );
+
+// A page's text as both the worker and the highlighter search it
+interface PageTextLayout {
+  items: TextItem[];
+  text: string;
+  folded: string;
+  // Where each item sits in the text
+  spans: [number, number][];
+  // Computed on first whole-word search
+  boundaries?: Set<number>;
+}
+
+const layoutPageText = (content: TextContent): PageTextLayout => {
+  const items = content.items.filter(
+    (item): item is TextItem => 'str' in item,
+  );
+  const { text, spans } = buildPageText(items);
+  return { items, text, folded: foldText(text), spans };
+};
+
+const usePdfSearch = (
+  pdf: pdfjsLib.PDFDocumentProxy | null,
+  onNavigate: (page: number) => void,
+): PdfSearchHook => {
+  const [query, setQuery] = useState('');
+  const [wholeWord, setWholeWord] = useState(false);
+  const [hits, setHits] = useState<SearchHit[]>([]);
+  const [truncated, setTruncated] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [progress, setProgress] = useState<IndexingProgress>({
+    done: 0,
+    total: 0,
+  });
+
+  const workerRef = useRef<Worker | null>(null);
+  const pageTextRef = useRef(new Map<number, PageTextLayout>());
+  const indexingRef = useRef(false);
+  const requestIdRef = useRef(0);
+  const lastSearchRef = useRef('');
+  const onNavigateRef = useRef(onNavigate);
+  onNavigateRef.current = onNavigate;
+
+  // One worker per open document
+  useEffect(() => {
+    if (!pdf) return;
+
+    const worker = new Worker(
+      new URL('../workers/searchIndex.worker.ts', import.meta.url),
+      { type: 'module' },
+    );
+    worker.onmessage = (event: MessageEvent<SearchWorkerResponse>) => {
+      // Ignore answers to queries that have since changed
+      if (event.data.id !== requestIdRef.current) return;
+      const { hits: newHits } = event.data;
+      // Each indexed batch re-runs the query; don't touch state when nothing new turned up
+      setHits((current) => (sameHits(current, newHits) ? current : newHits));
+      setTruncated(event.data.truncated);
+      // Keep the current hit while more pages are indexed
+      setActiveIndex((current) =>
+        newHits.length === 0
+          ? -1
+          : current >= 0 && current < newHits.length
+            ? current
+            : 0,
+      );
+    };
+    workerRef.current = worker;
+    pageTextRef.current = new Map();
+    indexingRef.current = false;
+    setProgress({ done: 0, total: pdf.numPages });
+
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, [pdf]);
+
+  const post = (request: SearchWorkerRequest): void => {
+    workerRef.current?.postMessage(request);
+  };
+
+  const runSearch = useCallback(() => {
+    requestIdRef.current += 1;
+    // A new query starts again from its first hit
+    const searchKey = `${query}|${wholeWord}`;
+    if (searchKey !== lastSearchRef.current) {
+      lastSearchRef.current = searchKey;
+      setActiveIndex(-1);
+    }
+    if (!query.trim()) {
+      setHits((current) => (current.length === 0 ? current : []));
+      setTruncated(false);
+      setActiveIndex(-1);
+      return;
+    }
+    post({
+      type: 'search',
+      id: requestIdRef.current,
+      query,
+      options: { wholeWord },
+    });
+  }, [query, wholeWord]);
+
+  // Extract text from every page and feed it to the worker
+  const startIndexing = useCallback(() => {
+    if (!pdf || indexingRef.current) return;
+    indexingRef.current = true;
+
+    const indexPages = async (): Promise<void> => {
+      for (let start = 1; start <= pdf.numPages; start += INDEX_BATCH_SIZE) {
+        const end = Math.min(start + INDEX_BATCH_SIZE - 1, pdf.numPages);
+        const batch: { page: number; text: string }[] = [];
+
+        for (let pageNumber = start; pageNumber <= end; pageNumber++) {
+          try {
+            const pageObj = await pdf.getPage(pageNumber);
+            const layout = layoutPageText(await pageObj.getTextContent());
+            pageTextRef.current.set(pageNumber, layout);
+            batch.push({ page: pageNumber, text: layout.text });
+          } catch (error) {
+            console.error(`[Search] Failed to extract page ${pageNumber}:`, error);
+          }
+        }
+
+        if (!workerRef.current) return; // document closed meanwhile
+        post({ type: 'index', pages: batch });
+        setProgress({ done: end, total: pdf.numPages });
+      }
+    };
+    indexPages();
+  }, [pdf]);
+
+  // Re-run the query when it changes and as more pages get indexed
+  useEffect(() => {
+    runSearch();
+  }, [runSearch, progress.done]);
+
+  const selectHit = useCallback(
+    (index: number) => {
+      const hit = hits[index];
+      if (!hit) return;
+      setActiveIndex(index);
+      onNavigateRef.current(hit.page);
+    },
+    [hits],
+  );
+
+  const nextHit = useCallback(() => {
+    if (hits.length === 0) return;
+    selectHit((activeIndex + 1) % hits.length);
+  }, [hits, activeIndex, selectHit]);
+
+  const prevHit = useCallback(() => {
+    if (hits.length === 0) return;
+    selectHit((activeIndex - 1 + hits.length) % hits.length);
+  }, [hits, activeIndex, selectHit]);
+
+  // Only where the active hit is matters for drawing, so the pages aren't
+  // repainted while hits come in from indexing
+  const activeHit = hits[activeIndex];
+  const activePage = activeHit?.page ?? 0;
+  const activeOrdinal = activeHit?.ordinal ?? -1;
+
+  // Paint translucent boxes over query matches on a rendered page. Matches
+  // are found in the page text exactly as the worker does, then drawn over
+  // each text item they cover; positions within an item are approximated
+  // from its width.
+  const drawHighlights = useCallback(
+    async (
+      context: CanvasRenderingContext2D,
+      pageNumber: number,
+      viewport: pdfjsLib.PageViewport,
+      offsetX = 0,
+    ) => {
+      const needle = foldText(normalizeText(query).trim());
+      if (!pdf || !needle) return;
+
+      let layout = pageTextRef.current.get(pageNumber);
+      if (!layout) {
+        const pageObj = await pdf.getPage(pageNumber);
+        layout = layoutPageText(await pageObj.getTextContent());
+        pageTextRef.current.set(pageNumber, layout);
+      }
+      if (wholeWord && !layout.boundaries) {
+        layout.boundaries = wordBoundaries(layout.folded);
+      }
+
+      const starts = findMatches(
+        layout.folded,
+        needle,
+        { wholeWord },
+        layout.boundaries,
+      );
+      starts.forEach((start, ordinal) => {
+        const end = start + needle.length;
+        context.fillStyle =
+          activePage === pageNumber && activeOrdinal === ordinal
+            ? ACTIVE_HIGHLIGHT_COLOR
+            : HIGHLIGHT_COLOR;
+
+        // A match can run over several items, e.g. across a line break
+        layout.items.forEach((item, i) => {
+          const [itemStart, itemEnd] = layout.spans[i];
+          if (itemEnd <= start || itemStart >= end) return;
+
+          const tx = pdfjsLib.Util.transform(viewport.transform, item.transform);
+          const fontHeight = Math.hypot(tx[2], tx[3]);
+          const itemWidth = item.width * viewport.scale;
+          const length = itemEnd - itemStart;
+          const from = Math.max(start, itemStart) - itemStart;
+          const to = Math.min(end, itemEnd) - itemStart;
+          context.fillRect(
+            offsetX + tx[4] + (itemWidth * from) / length,
+            tx[5] - fontHeight,
+            (itemWidth * (to - from)) / length,
+            fontHeight * 1.2,
+          );
+        });
+      });
+    },
+    [pdf, query, wholeWord, activePage, activeOrdinal],
+  );
+
+  return {
+    query,
+    setQuery,
+    wholeWord,
+    setWholeWord,
+    hits,
+    truncated,
+    activeIndex,
+    selectHit,
+    nextHit,
+    prevHit,
+    progress,
+    startIndexing,
+    drawHighlights,
+  };
+};
+
+export { usePdfSearch };
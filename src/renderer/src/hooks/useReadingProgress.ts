@@ -0,0 +1,205 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { appLifecycle, bookService } from '../services';
+import localStore from '../services/localStore';
+
+// How long to wait after the last page turn before reporting to the server
+const SAVE_DEBOUNCE_MS = 2000;
+
+interface StoredProgress {
+  page: number;
+  numPages: number;
+  updatedAt: string;
+}
+
+interface ReadingProgressOptions {
+  bookId: number;
+  page: number;
+  numPages: number;
+  // Last page the server knows about, or null if unknown
+  serverPage: number | null;
+  // Page the reader was asked to open at; wins over the saved position
+  startPage?: number;
+  // Called once the document is ready with the page to resume at
+  onRestore: (page: number) => void;
+}
+
+interface ReadingProgressHook {
+  // Set when the server is ahead of the locally saved page
+  conflictPage: number | null;
+  acceptServerPage: () => void;
+  dismissConflict: () => void;
+  flush: () => Promise<void>;
+}
+
+const STORE_SCOPE = 'reading-progress';
+
+const loadLocalProgress = (bookId: number): StoredProgress | null =>
+  localStore.read<StoredProgress | null>(STORE_SCOPE, bookId, null);
+
+const saveLocalProgress = (
+  bookId: number,
+  page: number,
+  numPages: number,
+): void => {
+  const progress: StoredProgress = {
+    page,
+    numPages,
+    updatedAt: new Date().toISOString(),
+  };
+  localStore.write(STORE_SCOPE, bookId, progress);
+};
+
+const clampPage = (page: number, numPages: number): number =>
+  Math.max(1, Math.min(numPages, Math.round(page)));
+
+const useReadingProgress = ({
+  bookId,
+  page,
+  numPages,
+  serverPage,
+  startPage,
+  onRestore,
+}: ReadingProgressOptions): ReadingProgressHook => {
+  const [conflictPage, setConflictPage] = useState<number | null>(null);
+  const restoredRef = useRef(false);
+  // Page handed to onRestore, until the reader shows it; it is where the
+  // reader already was, not progress to report
+  const restoredPageRef = useRef<number | null>(null);
+  // Server page the saved position was last compared with, and whether a
+  // newer one should be offered at all (not when opened at a given page)
+  const comparedServerPageRef = useRef<number | null>(null);
+  const offerServerPageRef = useRef(false);
+  const pageRef = useRef(page);
+  pageRef.current = page;
+  // Nothing goes to the server while the user hasn't answered the prompt
+  const conflictPageRef = useRef(conflictPage);
+  conflictPageRef.current = conflictPage;
+  const pendingPageRef = useRef<number | null>(null);
+  const lastSentPageRef = useRef<number | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const onRestoreRef = useRef(onRestore);
+  onRestoreRef.current = onRestore;
+
+  // Start over whenever a different book is opened
+  useEffect(() => {
+    restoredRef.current = false;
+    restoredPageRef.current = null;
+    comparedServerPageRef.current = null;
+    pendingPageRef.current = null;
+    lastSentPageRef.current = null;
+    setConflictPage(null);
+  }, [bookId]);
+
+  const flush = useCallback(async (): Promise<void> => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    const pending = pendingPageRef.current;
+    if (pending === null || pending === lastSentPageRef.current) return;
+    if (conflictPageRef.current !== null) return;
+
+    pendingPageRef.current = null;
+    const res = await bookService.updateReadPercent(bookId, pending);
+    if (res.success) {
+      lastSentPageRef.current = pending;
+    } else {
+      // Keep it around so the next page turn or flush retries
+      pendingPageRef.current = pendingPageRef.current ?? pending;
+      console.error('[ReadingProgress] Failed to save progress:', res.error);
+    }
+  }, [bookId]);
+
+  // Resume at the last saved page once the page count is known
+  useEffect(() => {
+    if (!numPages || restoredRef.current) return;
+    restoredRef.current = true;
+
+    const local = loadLocalProgress(bookId);
+    const localPage = local ? clampPage(local.page, numPages) : null;
+    const remotePage =
+      serverPage !== null && serverPage > 0
+        ? clampPage(serverPage, numPages)
+        : null;
+
+    lastSentPageRef.current = remotePage;
+    comparedServerPageRef.current = remotePage;
+    offerServerPageRef.current = !startPage;
+
+    const restore = (target: number): void => {
+      restoredPageRef.current = target;
+      onRestoreRef.current(target);
+    };
+    if (startPage) {
+      restore(clampPage(startPage, numPages));
+    } else if (localPage !== null) {
+      restore(localPage);
+      if (remotePage !== null && remotePage > localPage) {
+        console.log(
+          `[ReadingProgress] Server page ${remotePage} is ahead of local page ${localPage}`,
+        );
+        setConflictPage(remotePage);
+      }
+    } else if (remotePage !== null) {
+      restore(remotePage);
+    }
+  }, [bookId, numPages, serverPage, startPage]);
+
+  // The server's page can arrive after the book has opened, e.g. from the
+  // offline copy. Offer it then, but leave the reader where it is.
+  useEffect(() => {
+    if (!restoredRef.current || !offerServerPageRef.current) return;
+    if (!numPages || serverPage === null || serverPage <= 0) return;
+    const remotePage = clampPage(serverPage, numPages);
+    if (remotePage === comparedServerPageRef.current) return;
+    comparedServerPageRef.current = remotePage;
+
+    const currentPage = restoredPageRef.current ?? pageRef.current;
+    if (remotePage > currentPage) {
+      console.log(
+        `[ReadingProgress] Server page ${remotePage} is ahead of page ${currentPage}`,
+      );
+      setConflictPage(remotePage);
+    }
+  }, [numPages, serverPage]);
+
+  // Record page turns locally right away and report them to the server debounced
+  useEffect(() => {
+    if (!numPages || !restoredRef.current) return;
+    if (restoredPageRef.current !== null) {
+      if (page === restoredPageRef.current) restoredPageRef.current = null;
+      return;
+    }
+
+    saveLocalProgress(bookId, page, numPages);
+    pendingPageRef.current = page;
+
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = setTimeout(() => {
+      timerRef.current = null;
+      flush();
+    }, SAVE_DEBOUNCE_MS);
+  }, [bookId, page, numPages, flush]);
+
+  // Flush when the window is closing or the reader unmounts
+  useEffect(() => {
+    const unregister = appLifecycle.onClosing(flush);
+    return () => {
+      unregister();
+      flush();
+    };
+  }, [flush]);
+
+  const acceptServerPage = useCallback(() => {
+    if (conflictPage !== null) onRestoreRef.current(conflictPage);
+    setConflictPage(null);
+  }, [conflictPage]);
+
+  const dismissConflict = useCallback(() => {
+    setConflictPage(null);
+  }, []);
+
+  return { conflictPage, acceptServerPage, dismissConflict, flush };
+};
+
+export { useReadingProgress };
@@ -0,0 +1,39 @@
+import { createContext, useContext, RefObject } from 'react';
+import { DEFAULT_ROUTE, Route } from '../utils/routes';
+
+// The router's state and actions, provided by RouterProvider
+
+export interface NavigateOptions {
+  // Swap the current entry instead of adding one
+  replace?: boolean;
+  state?: unknown;
+}
+
+interface RouterContextType {
+  route: Route;
+  entryKey: string;
+  state: unknown;
+  canGoBack: boolean;
+  navigate: (route: Route, options?: NavigateOptions) => void;
+  // Goes to the fallback instead when there is no history to go back to,
+  // e.g. after opening a link straight into a book
+  back: (fallback?: Route) => void;
+  forward: () => void;
+  // The element screens scroll in; remounted for every history entry
+  scrollContainerRef: RefObject<HTMLDivElement | null>;
+}
+
+export const RouterContext = createContext<RouterContextType>({
+  route: DEFAULT_ROUTE,
+  entryKey: '',
+  state: undefined,
+  canGoBack: false,
+  navigate: () => {},
+  back: () => {},
+  forward: () => {},
+  scrollContainerRef: { current: null },
+});
+
+const useRouter = (): RouterContextType => useContext(RouterContext);
+
+export { useRouter };
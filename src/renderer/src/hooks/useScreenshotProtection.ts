@@ -20,12 +20,12 @@ const useScreenshotProtection = (): ScreenshotProtectionHook => {
   // Initialize platform info and permissions
   useEffect(() => {
     const initializePlatformInfo = async () => {
-      if (window.electron?.ipcRenderer?.invoke) {
+      if (window.api) {
         try {
-          const platform = await window.electron.ipcRenderer.invoke('check-platform-info');
+          const platform = await window.api.app.getPlatformInfo();
           setPlatformInfo(platform);
           
-          const permission = await window.electron.ipcRenderer.invoke('check-screen-permission');
+          const permission = await window.api.screenProtection.checkPermission();
           setHasPermission(permission);
         } catch (error) {
           console.error('[ScreenProtection] Error initializing platform info:', error);
@@ -57,13 +57,13 @@ const useScreenshotProtection = (): ScreenshotProtectionHook => {
   }, [logout]);
 
   const requestPermission = useCallback(async (): Promise<boolean> => {
-    if (!window.electron?.ipcRenderer?.invoke) {
+    if (!window.api) {
       console.warn('[ScreenProtection] Electron IPC not available');
       return false;
     }
 
     try {
-      const granted = await window.electron.ipcRenderer.invoke('request-screen-permission');
+      const granted = await window.api.screenProtection.requestPermission();
       setHasPermission(granted);
       return granted;
     } catch (error) {
@@ -80,8 +80,8 @@ const useScreenshotProtection = (): ScreenshotProtectionHook => {
     }
 
     try {
-      if (window.electron?.ipcRenderer?.invoke) {
-        const result = await window.electron.ipcRenderer.invoke('start-screen-protection');
+      if (window.api) {
+        const result = await window.api.screenProtection.start();
         if (result.success) {
           isProtectionActiveRef.current = true;
           console.log('[ScreenProtection] Protection started successfully');
@@ -111,8 +111,8 @@ const useScreenshotProtection = (): ScreenshotProtectionHook => {
     }
 
     try {
-      if (window.electron?.ipcRenderer?.invoke) {
-        const result = await window.electron.ipcRenderer.invoke('stop-screen-protection');
+      if (window.api) {
+        const result = await window.api.screenProtection.stop();
         if (result.success) {
           isProtectionActiveRef.current = false;
           console.log('[ScreenProtection] Protection stopped successfully');
@@ -129,7 +129,7 @@ const useScreenshotProtection = (): ScreenshotProtectionHook => {
 
   // Set up IPC listeners for screen capture detection
   useEffect(() => {
-    if (!window.electron?.ipcRenderer?.on) {
+    if (!window.api) {
       console.warn('[ScreenProtection] Electron IPC not available');
       return;
     }
@@ -140,16 +140,8 @@ const useScreenshotProtection = (): ScreenshotProtectionHook => {
       handleScreenshotDetected();
     };
 
-    window.electron.ipcRenderer.on('screen-capture-detected', handleScreenCaptureDetected);
-    window.electron.ipcRenderer.on('screenshot-detected', handleScreenCaptureDetected);
-
-    // Cleanup listeners on unmount
-    return () => {
-      if (window.electron?.ipcRenderer?.removeListener) {
-        window.electron.ipcRenderer.removeListener('screen-capture-detected', handleScreenCaptureDetected);
-        window.electron.ipcRenderer.removeListener('screenshot-detected', handleScreenCaptureDetected);
-      }
-    };
+    // Cleanup listener on unmount
+    return window.api.screenProtection.onCaptureDetected(handleScreenCaptureDetected);
   }, [handleScreenshotDetected]);
 
   // Browser-based protection fallback
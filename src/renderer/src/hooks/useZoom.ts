@@ -0,0 +1,148 @@
+import { RefObject, useCallback, useEffect, useState } from 'react';
+import * as pdfjsLib from 'pdfjs-dist';
+import type { PageMode } from '../utils/readerOptions';
+
+export const MIN_ZOOM = 0.5;
+export const MAX_ZOOM = 3;
+const ZOOM_STEP = 0.2;
+
+// Space around the page inside the reading area (padding, margins, shadow)
+const HORIZONTAL_PADDING = 112;
+// Header, progress bar and navigation controls above and below the page
+const VERTICAL_CHROME = 300;
+// Gap between the two pages in double-page mode
+const DOUBLE_PAGE_GAP = 10;
+
+export type ZoomMode = 'fit-width' | 'fit-page' | 'actual' | 'custom';
+
+interface ZoomPreferences {
+  zoomMode: ZoomMode;
+  customZoom: number;
+}
+
+interface ZoomOptions extends ZoomPreferences {
+  pdf: pdfjsLib.PDFDocumentProxy | null;
+  page: number;
+  pageMode: PageMode;
+  containerRef: RefObject<HTMLElement | null>;
+  // Persists a changed mode or custom zoom
+  onChange: (preferences: Partial<ZoomPreferences>) => void;
+}
+
+interface ZoomHook {
+  zoom: number;
+  zoomMode: ZoomMode;
+  setZoomMode: (mode: ZoomMode) => void;
+  zoomIn: () => void;
+  zoomOut: () => void;
+}
+
+const clampZoom = (zoom: number): number =>
+  Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, Math.round(zoom * 100) / 100));
+
+// Zoom for the reader, either a fixed value or fitted to the reading area.
+// The mode and custom zoom are owned by the caller (reader preferences);
+// fitted zoom follows the size of the container instead of being reset on
+// every window resize.
+const useZoom = ({
+  pdf,
+  page,
+  pageMode,
+  containerRef,
+  zoomMode,
+  customZoom,
+  onChange,
+}: ZoomOptions): ZoomHook => {
+  const [pageSize, setPageSize] = useState<{
+    width: number;
+    height: number;
+  } | null>(null);
+  const [area, setArea] = useState({ width: 0, height: 0 });
+
+  // Scroll mode fits to the first page so zoom doesn't jump while scrolling
+  const sizingPage = pageMode === 'scroll' ? 1 : page;
+  useEffect(() => {
+    if (!pdf) return;
+    let cancelled = false;
+    pdf
+      .getPage(Math.min(sizingPage, pdf.numPages))
+      .then((pageObj) => {
+        if (cancelled) return;
+        const viewport = pageObj.getViewport({ scale: 1 });
+        setPageSize((current) =>
+          current?.width === viewport.width &&
+          current?.height === viewport.height
+            ? current
+            : { width: viewport.width, height: viewport.height },
+        );
+      })
+      .catch((error) => console.error('[Zoom] Failed to measure page:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [pdf, sizingPage]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const measure = (): void =>
+      setArea({
+        width: Math.max(0, container.clientWidth - HORIZONTAL_PADDING),
+        height: Math.max(0, window.innerHeight - VERTICAL_CHROME),
+      });
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    window.addEventListener('resize', measure);
+    measure();
+    return () => {
+      observer.disconnect();
+      window.removeEventListener('resize', measure);
+    };
+  }, [containerRef]);
+
+  let zoom = zoomMode === 'custom' ? customZoom : 1;
+  if (
+    (zoomMode === 'fit-width' || zoomMode === 'fit-page') &&
+    pageSize &&
+    area.width > 0
+  ) {
+    const spreadWidth =
+      pageMode === 'double'
+        ? pageSize.width * 2 + DOUBLE_PAGE_GAP
+        : pageSize.width;
+    const widthZoom = area.width / spreadWidth;
+    zoom =
+      zoomMode === 'fit-page' && area.height > 0
+        ? Math.min(widthZoom, area.height / pageSize.height)
+        : widthZoom;
+    zoom = clampZoom(zoom);
+  }
+
+  const setZoomMode = useCallback(
+    (mode: ZoomMode) => onChange({ zoomMode: mode }),
+    [onChange],
+  );
+
+  // Stepping switches to a custom zoom starting from what's on screen
+  const zoomIn = useCallback(
+    () =>
+      onChange({
+        zoomMode: 'custom',
+        customZoom: clampZoom(zoom + ZOOM_STEP),
+      }),
+    [onChange, zoom],
+  );
+
+  const zoomOut = useCallback(
+    () =>
+      onChange({
+        zoomMode: 'custom',
+        customZoom: clampZoom(zoom - ZOOM_STEP),
+      }),
+    [onChange, zoom],
+  );
+
+  return { zoom, zoomMode, setZoomMode, zoomIn, zoomOut };
+};
+
+export { useZoom };
@@ -1,44 +1,249 @@
-import { useState } from 'react';
+import React, { useState } from 'react';
 import toast from 'react-hot-toast';
 import { useAuth } from '../context/AuthContext';
+import OtpInput from '../components/OtpInput';
+import PasswordStrengthMeter from '../components/PasswordStrengthMeter';
+import { formatCountdown, useOtpTimer } from '../hooks/useOtpTimer';
+import { checkPasswordStrength } from '../utils/passwordStrength';
 
+const OTP_LENGTH = 6;
+
+// request: ask for the email, otp: enter the emailed code,
+// password: choose a new password (only after the code checks out)
+type ResetStep = 'request' | 'otp' | 'password';
+
+const steps: { key: ResetStep; label: string }[] = [
+  { key: 'request', label: 'Email' },
+  { key: 'otp', label: 'Code' },
+  { key: 'password', label: 'New password' },
+];
+
+const inputClass = 'w-full px-3 py-2 border rounded mb-3 bg-white';
+const primaryButtonClass =
+  'w-full bg-blue-500 text-white py-2 rounded-xl hover:bg-blue-600 disabled:bg-gray-400 disabled:cursor-not-allowed mb-2';
+
+// Guided password reset: request a code, prove ownership of the address
+// with it, then set the new password
 const ForgotPasswordPage: React.FC<{ onBack?: () => void }> = ({ onBack }) => {
-  const { forgotPassword } = useAuth();
+  const { forgotPassword, verifyResetOtp, newPassword } = useAuth();
+  const [step, setStep] = useState<ResetStep>('request');
   const [email, setEmail] = useState('');
+  const [otp, setOtp] = useState('');
+  const [otpError, setOtpError] = useState<string | null>(null);
+  const [resetToken, setResetToken] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirm, setConfirm] = useState('');
   const [loading, setLoading] = useState(false);
+  const { expiresIn, resendIn, expired, markSent } = useOtpTimer(false);
 
-  const handleSubmit = async () => {
+  const emailValid = /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+
+  const requestCode = async (): Promise<void> => {
+    if (!emailValid) {
+      toast.error('Please enter a valid email address');
+      return;
+    }
     setLoading(true);
     const success = await forgotPassword({ email });
     setLoading(false);
     if (success) {
-      toast.success('Please check your email for reset link/OTP');
-      onBack?.();
+      markSent();
+      setOtp('');
+      setOtpError(null);
+      setStep('otp');
+      toast.success(`We sent a code to ${email}`);
     } else {
       toast.error('Request failed');
     }
   };
 
+  const submitOtp = async (code: string = otp): Promise<void> => {
+    if (code.length !== OTP_LENGTH || loading) return;
+    if (expired) {
+      setOtpError('This code has expired. Request a new one.');
+      return;
+    }
+    setLoading(true);
+    const token = await verifyResetOtp({ email, otp: code });
+    setLoading(false);
+    if (token) {
+      setResetToken(token);
+      setStep('password');
+    } else {
+      setOtp('');
+      setOtpError('That code is incorrect or has expired.');
+    }
+  };
+
+  const submitPassword = async (): Promise<void> => {
+    if (!checkPasswordStrength(password).valid) {
+      toast.error('Please choose a stronger password');
+      return;
+    }
+    if (password !== confirm) {
+      toast.error('The passwords do not match');
+      return;
+    }
+    setLoading(true);
+    const success = await newPassword({
+      Email: email,
+      Password: password,
+      ResetToken: resetToken,
+    });
+    setLoading(false);
+    if (success) {
+      toast.success('Password updated. You can now log in.');
+      onBack?.();
+    } else {
+      // Most likely the reset token ran out; the code has to be redone
+      toast.error('Your reset session has expired. Please request a new code.');
+      setResetToken('');
+      setPassword('');
+      setConfirm('');
+      setStep('request');
+    }
+  };
+
+  const stepIndex = steps.findIndex((s) => s.key === step);
+
   return (
     <div className="flex items-center justify-center min-h-screen background-login">
       <div className="w-full max-w-md bg-white rounded-lg shadow-lg p-8 flex flex-col items-center">
-        <h2 className="text-xl font-medium mb-4">Forgot Password</h2>
-        <input
-          type="email"
-          className="w-full px-3 py-2 border rounded mb-4 bg-white"
-          placeholder="Email"
-          value={email}
-          onChange={(e) => setEmail(e.target.value)}
-        />
-        <button
-          className="w-full bg-blue-500 text-white py-2 rounded-xl hover:bg-blue-600 mb-2"
-          disabled={loading}
-          onClick={handleSubmit}
-        >
-          {loading ? 'Submitting...' : 'Send'}
-        </button>
-        <button className="text-sm text-blue-500" onClick={onBack}>
-          Back
+        <h2 className="text-xl font-medium mb-4">Reset Password</h2>
+
+        {/* Progress */}
+        <ol className="flex w-full justify-between mb-6 text-xs">
+          {steps.map((s, index) => (
+            <li
+              key={s.key}
+              className={`flex-1 text-center pb-1 border-b-2 ${
+                index <= stepIndex
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-gray-200 text-gray-400'
+              }`}
+            >
+              {s.label}
+            </li>
+          ))}
+        </ol>
+
+        {step === 'request' && (
+          <>
+            <p className="text-sm text-gray-500 mb-3 text-center">
+              Enter the email address of your account and we&apos;ll send you
+              a code.
+            </p>
+            <input
+              type="email"
+              className={inputClass}
+              placeholder="Email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+            />
+            <button
+              className={primaryButtonClass}
+              disabled={loading || !emailValid}
+              onClick={requestCode}
+            >
+              {loading ? 'Sending...' : 'Send code'}
+            </button>
+          </>
+        )}
+
+        {step === 'otp' && (
+          <>
+            <p className="text-sm text-gray-500 mb-4 text-center">
+              Enter the {OTP_LENGTH}-digit code sent to{' '}
+              <span className="font-medium text-gray-700">{email}</span>
+            </p>
+            <OtpInput
+              value={otp}
+              onChange={(value) => {
+                setOtp(value);
+                setOtpError(null);
+              }}
+              onComplete={submitOtp}
+              length={OTP_LENGTH}
+              disabled={loading || expired}
+              error={otpError !== null}
+              autoFocus
+            />
+            <div className="h-10 mt-3 text-sm text-center">
+              {otpError ? (
+                <span className="text-red-500">{otpError}</span>
+              ) : expired ? (
+                <span className="text-red-500">
+                  This code has expired. Request a new one.
+                </span>
+              ) : (
+                <span className="text-gray-500">
+                  Code expires in {formatCountdown(expiresIn)}
+                </span>
+              )}
+            </div>
+            <button
+              className={primaryButtonClass}
+              disabled={otp.length !== OTP_LENGTH || loading || expired}
+              onClick={() => submitOtp()}
+            >
+              {loading ? 'Checking...' : 'Continue'}
+            </button>
+            <button
+              className="text-sm text-blue-500 disabled:text-gray-400 mb-2"
+              disabled={resendIn > 0 || loading}
+              onClick={requestCode}
+            >
+              {resendIn > 0
+                ? `Resend code in ${formatCountdown(resendIn)}`
+                : 'Resend code'}
+            </button>
+            <button
+              className="text-sm text-gray-500"
+              onClick={() => setStep('request')}
+            >
+              Use a different email
+            </button>
+          </>
+        )}
+
+        {step === 'password' && (
+          <>
+            <input
+              type="password"
+              className={inputClass}
+              placeholder="New Password"
+              autoComplete="new-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+            <div className="w-full -mt-2 mb-3">
+              <PasswordStrengthMeter password={password} />
+            </div>
+            <input
+              type="password"
+              className={inputClass}
+              placeholder="Confirm New Password"
+              autoComplete="new-password"
+              value={confirm}
+              onChange={(e) => setConfirm(e.target.value)}
+            />
+            {confirm && confirm !== password && (
+              <div className="w-full text-xs text-red-500 -mt-2 mb-3">
+                Passwords do not match
+              </div>
+            )}
+            <button
+              className={primaryButtonClass}
+              disabled={loading || !password || password !== confirm}
+              onClick={submitPassword}
+            >
+              {loading ? 'Updating...' : 'Update password'}
+            </button>
+          </>
+        )}
+
+        <button className="text-sm text-blue-500 mt-2" onClick={onBack}>
+          Back to login
         </button>
       </div>
     </div>
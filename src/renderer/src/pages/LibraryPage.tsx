@@ -1,23 +1,43 @@
 import React, { useState, useEffect } from 'react';
-import { FiSearch, FiFilter } from 'react-icons/fi';
+import {
+  FiSearch,
+  FiFilter,
+  FiDownloadCloud,
+  FiCheckCircle,
+  FiLoader,
+} from 'react-icons/fi';
 import { FaHeart } from 'react-icons/fa';
-import BookDetailPage from './BookDetailPage';
-import ReaderPage from './ReaderPage';
 import { bookService } from '../services';
 import { Book } from '../services/bookService';
 import { useUser } from '../context/UserContext';
+import { useRouter } from '../hooks/useRouter';
+import { useOfflineBooks } from '../hooks/useOfflineBooks';
+import { useEntryState, useScrollRestoration } from '../hooks/useEntryState';
+import { bookFromOffline } from '../utils/offlineBooks';
 // categories can be derived later
 const categories = ['ทั้งหมด'];
 
 const LibraryPage: React.FC = () => {
-  const [search, setSearch] = useState('');
-  const [selectedCategory, setSelectedCategory] = useState('ทั้งหมด');
-  const [selectedBook, setSelectedBook] = useState<Book | null>(null);
-  const [readingBook, setReadingBook] = useState<Book | null>(null);
+  // Kept with the history entry, so coming back from a book finds them again
+  const [search, setSearch] = useEntryState('search', '');
+  const [selectedCategory, setSelectedCategory] = useEntryState(
+    'category',
+    'ทั้งหมด',
+  );
   const [books, setBooks] = useState<Book[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  // The library couldn't be fetched; showing the books kept for offline reading
+  const [showingOffline, setShowingOffline] = useState(false);
   const [_, setFavoriteBooks] = useState<Book[]>([]);
+  const { navigate } = useRouter();
   // Placeholder remove; underscore to avoid unused param lint
   const { user } = useUser();
+  const {
+    offlineBookIds,
+    downloadingBookIds,
+    downloadForOffline,
+    removeOfflineCopy,
+  } = useOfflineBooks();
 
   useEffect(() => {
     const fetchData = async () => {
@@ -40,11 +60,26 @@ const LibraryPage: React.FC = () => {
         if (favoritesRes.success && favoritesRes.data) {
           setFavoriteBooks(favoritesRes.data);
         }
+      } else if (window.api) {
+        console.warn('[LibraryPage] Library unavailable, showing offline books:', booksRes.error);
+        try {
+          const cached = await window.api.books.listOffline();
+          setBooks(cached.map(bookFromOffline));
+          setShowingOffline(true);
+        } catch (error) {
+          console.error('[LibraryPage] Failed to list offline books:', error);
+        }
       }
+      setLoaded(true);
     };
     fetchData();
   }, []);
 
+  useScrollRestoration(loaded);
+
+  const openBook = (book: Book): void =>
+    navigate({ name: 'book', bookId: book.bookId }, { state: { book } });
+
   // Toggle favorite status for a book
   const toggleFavorite = async (book: Book, event: React.MouseEvent) => {
     event.stopPropagation(); // Prevent card click
@@ -82,22 +117,6 @@ const LibraryPage: React.FC = () => {
     }
   };
 
-  if (readingBook) {
-    return (
-      <ReaderPage book={readingBook} onBack={() => setReadingBook(null)} />
-    );
-  }
-
-  if (selectedBook) {
-    return (
-      <BookDetailPage
-        book={selectedBook}
-        onBack={() => setSelectedBook(null)}
-        onRead={() => setReadingBook(selectedBook)}
-      />
-    );
-  }
-
   // Apply search & category filters first
   const visibleBooks = books.filter((book) => {
     const matchSearch =
@@ -125,11 +144,21 @@ const LibraryPage: React.FC = () => {
     return false;
   });
 
+  // Download for offline reading, or drop the offline copy if there is one
+  const toggleOffline = (book: Book, event: React.MouseEvent): void => {
+    event.stopPropagation(); // Prevent card click
+    if (downloadingBookIds.has(book.bookId)) return;
+    if (offlineBookIds.has(book.bookId)) removeOfflineCopy(book);
+    else downloadForOffline(book);
+  };
+
   // Reusable book card component
   function BookCard({ book }: { book: Book }) {
+    const isOffline = offlineBookIds.has(book.bookId);
+    const isDownloading = downloadingBookIds.has(book.bookId);
     return (
       <div
-        onClick={() => setSelectedBook(book)}
+        onClick={() => openBook(book)}
         className="relative bg-white rounded-lg overflow-hidden shadow-md hover:shadow-xl transition-shadow duration-300 cursor-pointer"
       >
         {/* Heart icon in top-right corner */}
@@ -141,10 +170,33 @@ const LibraryPage: React.FC = () => {
             }`}
           />
         </div>
+        {/* Offline copy toggle in top-left corner */}
+        <button
+          type="button"
+          onClick={(e) => toggleOffline(book, e)}
+          className={`absolute top-2 left-2 z-10 rounded-full bg-white/80 p-1 transition-colors ${
+            isOffline ? 'text-green-600' : 'text-gray-500 hover:text-blue-500'
+          }`}
+          title={
+            isDownloading
+              ? 'Downloading...'
+              : isOffline
+                ? 'Available offline (click to remove)'
+                : 'Download for offline'
+          }
+        >
+          {isDownloading ? (
+            <FiLoader className="animate-spin" />
+          ) : isOffline ? (
+            <FiCheckCircle />
+          ) : (
+            <FiDownloadCloud />
+          )}
+        </button>
         {/* Book cover */}
         <div
           className="relative pb-[140%]"
-          onClick={() => setSelectedBook(book)}
+          onClick={() => openBook(book)}
         >
           <img
             src={
@@ -222,6 +274,12 @@ const LibraryPage: React.FC = () => {
         ชั้นหนังสือ{' '}
       </h2>
       <hr className="my-4 border-gray-200" />
+      {showingOffline && (
+        <div className="mb-4 px-4 py-2 rounded bg-yellow-50 border border-yellow-200 text-sm text-yellow-800">
+          Can&apos;t reach the library right now. Showing the books downloaded for
+          offline reading.
+        </div>
+      )}
       {/* Unread Section */}
       {unreadBooks.length > 0 && (
         <div className="mb-8 mt-4">
@@ -5,17 +5,22 @@ import logo from '../assets/logo.png';
 import eyeoff from '../assets/eyeoff.png';
 import bgimage from '../assets/bgimage.png';
 
-const LoginPage: React.FC<{ onNavigate?: (page: string) => void }> = ({
-  onNavigate,
-}) => {
+const LoginPage: React.FC<{
+  onNavigate?: (page: string) => void;
+  // The account exists but its email hasn't been verified yet
+  onUnverified?: (userId: string) => void;
+}> = ({ onNavigate, onUnverified }) => {
   const { login, loading } = useAuth();
   const [userId, setUserId] = useState('1');
   const [password, setPassword] = useState('1');
 
   const handleSubmit = async () => {
-    const success = await login(userId, password);
-    if (success) {
+    const result = await login(userId, password);
+    if (result === 'success') {
       toast.success('Login successful');
+    } else if (result === 'unverified') {
+      toast.error('Please verify your email before logging in');
+      onUnverified?.(userId);
     } else {
       toast.error('Invalid credentials');
     }
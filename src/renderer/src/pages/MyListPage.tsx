@@ -1,8 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { FaHeart } from 'react-icons/fa';
 import bookService, { Book } from '../services/bookService';
-import ReaderPage from './ReaderPage';
-import BookDetailPage from './BookDetailPage';
+import { useRouter } from '../hooks/useRouter';
+import { useScrollRestoration } from '../hooks/useEntryState';
 
 // Local fallback data while waiting for API (optional)
 const fallbackBooks: Book[] = [];
@@ -10,9 +10,8 @@ const fallbackBooks: Book[] = [];
 const MyListPage: React.FC = () => {
   const [books, setBooks] = useState<Book[]>(fallbackBooks);
   const [loading, setLoading] = useState<boolean>(true);
-  const [selectedBook, setSelectedBook] = useState<Book | null>(null);
-  const [readingBook, setReadingBook] = useState<Book | null>(null);
   const [removingFavorite, setRemovingFavorite] = useState<number | null>(null);
+  const { navigate } = useRouter();
 
   useEffect(() => {
     const fetchFavorites = async () => {
@@ -31,6 +30,8 @@ const MyListPage: React.FC = () => {
     fetchFavorites();
   }, []);
 
+  useScrollRestoration(!loading);
+
   const handleRemoveFavorite = async (bookId: number, event: React.MouseEvent) => {
     event.stopPropagation(); // Prevent card click
     
@@ -51,24 +52,6 @@ const MyListPage: React.FC = () => {
     }
   };
 
-  // If currently reading
-  if (readingBook) {
-    return (
-      <ReaderPage book={readingBook} onBack={() => setReadingBook(null)} />
-    );
-  }
-
-  // If a book is selected show detail screen
-  if (selectedBook) {
-    return (
-      <BookDetailPage
-        book={selectedBook}
-        onBack={() => setSelectedBook(null)}
-        onRead={() => setReadingBook(selectedBook)}
-      />
-    );
-  }
-
   // Separate books into reading and unread categories
   const readingBooks = books.filter(
     (book) =>
@@ -81,7 +64,9 @@ const MyListPage: React.FC = () => {
   function BookCard({ book }: { book: Book }) {
     return (
       <div
-        onClick={() => setSelectedBook(book)}
+        onClick={() =>
+          navigate({ name: 'book', bookId: book.bookId }, { state: { book } })
+        }
         className="relative bg-white rounded-lg overflow-hidden shadow-md hover:shadow-xl transition-shadow duration-300 cursor-pointer"
       >
         {/* Heart icon in top-right corner */}
@@ -1,24 +1,327 @@
+import React, { useEffect, useRef, useState } from 'react';
+import toast from 'react-hot-toast';
 import { useUser } from '../context/UserContext';
+import { useAuth } from '../context/AuthContext';
+import { authService } from '../services';
+import PasswordStrengthMeter from '../components/PasswordStrengthMeter';
+import { checkPasswordStrength } from '../utils/passwordStrength';
+
+// Largest avatar image accepted for upload
+const MAX_AVATAR_BYTES = 2 * 1024 * 1024;
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none';
+
+const buttonClass =
+  'px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed';
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({
+  label,
+  children,
+}) => (
+  <label className="block">
+    <span className="block text-sm font-medium mb-1">{label}</span>
+    {children}
+  </label>
+);
+
+const readAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
 
 const ProfilePage: React.FC = () => {
   const { user } = useUser();
+  const { changePassword, refreshProfile } = useAuth();
+  const avatarInputRef = useRef<HTMLInputElement>(null);
+
+  const [profile, setProfile] = useState({
+    firstName: '',
+    lastName: '',
+    telephone: '',
+    address: '',
+  });
+  const [profileLoaded, setProfileLoaded] = useState(false);
+  const [savingProfile, setSavingProfile] = useState(false);
+  const [uploadingAvatar, setUploadingAvatar] = useState(false);
+
+  const [passwords, setPasswords] = useState({
+    current: '',
+    next: '',
+    confirm: '',
+  });
+  const [changingPassword, setChangingPassword] = useState(false);
+
+  // The cached user only has a display name; load the editable fields
+  useEffect(() => {
+    authService.getProfile().then((response) => {
+      if (response.success && response.data) {
+        setProfile({
+          firstName: response.data.userName ?? '',
+          lastName: response.data.userLastName ?? '',
+          telephone: response.data.telephone ?? '',
+          address: response.data.address ?? '',
+        });
+        setProfileLoaded(true);
+      } else {
+        toast.error('Could not load your profile');
+      }
+    });
+  }, []);
+
+  const handleProfileChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>,
+  ): void => {
+    setProfile({ ...profile, [e.target.name]: e.target.value });
+  };
+
+  const saveProfile = async (): Promise<void> => {
+    if (!profile.firstName.trim()) {
+      toast.error('Please enter your name');
+      return;
+    }
+    setSavingProfile(true);
+    const response = await authService.updateProfile({
+      firstName: profile.firstName.trim(),
+      lastName: profile.lastName.trim(),
+      telephone: profile.telephone.trim(),
+      address: profile.address.trim(),
+    });
+    setSavingProfile(false);
+    if (response.success) {
+      toast.success('Profile updated');
+      await refreshProfile();
+    } else {
+      toast.error(response.error ?? 'Profile update failed');
+    }
+  };
+
+  const uploadAvatar = async (
+    e: React.ChangeEvent<HTMLInputElement>,
+  ): Promise<void> => {
+    const file = e.target.files?.[0];
+    // Allow picking the same file again after an error
+    e.target.value = '';
+    if (!file) return;
+    if (!file.type.startsWith('image/')) {
+      toast.error('Please choose an image file');
+      return;
+    }
+    if (file.size > MAX_AVATAR_BYTES) {
+      toast.error('Image must be 2 MB or smaller');
+      return;
+    }
+
+    setUploadingAvatar(true);
+    try {
+      const response = await authService.uploadAvatar({
+        Avatar: await readAsDataUrl(file),
+      });
+      if (!response.success) throw new Error(response.error);
+      toast.success('Profile picture updated');
+      await refreshProfile();
+    } catch (error) {
+      console.error('[Profile] Avatar upload failed:', error);
+      toast.error('Could not upload the picture');
+    } finally {
+      setUploadingAvatar(false);
+    }
+  };
+
+  const handlePasswordChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
+    setPasswords({ ...passwords, [e.target.name]: e.target.value });
+  };
+
+  const submitPasswordChange = async (): Promise<void> => {
+    if (!passwords.current) {
+      toast.error('Please enter your current password');
+      return;
+    }
+    if (!checkPasswordStrength(passwords.next).valid) {
+      toast.error('Please choose a stronger password');
+      return;
+    }
+    if (passwords.next !== passwords.confirm) {
+      toast.error('The new passwords do not match');
+      return;
+    }
+    if (passwords.next === passwords.current) {
+      toast.error('The new password must be different');
+      return;
+    }
+
+    setChangingPassword(true);
+    const success = await changePassword({
+      CurrentPassword: passwords.current,
+      Password: passwords.next,
+    });
+    setChangingPassword(false);
+    if (success) {
+      toast.success('Password changed');
+      setPasswords({ current: '', next: '', confirm: '' });
+    } else {
+      toast.error('Password change failed. Check your current password.');
+    }
+  };
 
   return (
     <div className="flex-1 p-8 text-gray-700">
-      <h2 className="text-2xl font-bold mb-4">Profile</h2>
-      <div className="flex flex-col items-center">
-        <div className="w-24 h-24 rounded-full bg-gradient-to-br from-blue-400 to-blue-600 mb-4 flex items-center justify-center text-white text-3xl">
-          <span className="material-icons">person</span>
-        </div>
-        <div className="w-full max-w-md">
-          <label className="block text-left text-sm font-medium mb-1">
-            Nickname
-          </label>
-          <div className="flex flex-col items-center">
-            <div>{user?.name}</div>
-            <div>{user?.email}</div>
+      <h2 className="text-2xl font-bold mb-6">Profile</h2>
+      <div className="max-w-2xl space-y-6">
+        {/* Avatar */}
+        <div className="flex items-center gap-6">
+          <button
+            type="button"
+            className="w-24 h-24 rounded-full bg-gradient-to-br from-blue-400 to-blue-600 flex items-center justify-center text-white text-3xl overflow-hidden disabled:opacity-60"
+            onClick={() => avatarInputRef.current?.click()}
+            disabled={uploadingAvatar}
+            title="Change profile picture"
+          >
+            {user?.avatar ? (
+              <img
+                src={user.avatar}
+                alt=""
+                className="w-full h-full object-cover"
+              />
+            ) : (
+              <span className="material-icons">person</span>
+            )}
+          </button>
+          <div>
+            <div className="text-lg font-semibold">{user?.name}</div>
+            <div className="text-sm text-gray-500">{user?.email}</div>
+            <button
+              type="button"
+              className="mt-2 text-sm text-blue-600 hover:underline disabled:text-gray-400"
+              onClick={() => avatarInputRef.current?.click()}
+              disabled={uploadingAvatar}
+            >
+              {uploadingAvatar ? 'Uploading...' : 'Change picture'}
+            </button>
+            <input
+              ref={avatarInputRef}
+              type="file"
+              accept="image/*"
+              className="hidden"
+              onChange={uploadAvatar}
+            />
           </div>
         </div>
+
+        {/* Profile details */}
+        <section className="bg-white rounded-lg shadow p-6 space-y-4">
+          <h3 className="text-lg font-semibold">Personal details</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Field label="Name">
+              <input
+                name="firstName"
+                value={profile.firstName}
+                onChange={handleProfileChange}
+                disabled={!profileLoaded}
+                className={inputClass}
+              />
+            </Field>
+            <Field label="Surname">
+              <input
+                name="lastName"
+                value={profile.lastName}
+                onChange={handleProfileChange}
+                disabled={!profileLoaded}
+                className={inputClass}
+              />
+            </Field>
+            <Field label="Tel">
+              <input
+                type="tel"
+                name="telephone"
+                value={profile.telephone}
+                onChange={handleProfileChange}
+                disabled={!profileLoaded}
+                className={inputClass}
+              />
+            </Field>
+            <Field label="Email Address">
+              <input
+                type="email"
+                value={user?.email ?? ''}
+                disabled
+                className={`${inputClass} bg-gray-50 text-gray-500`}
+              />
+            </Field>
+          </div>
+          <Field label="Address">
+            <textarea
+              name="address"
+              value={profile.address}
+              onChange={handleProfileChange}
+              disabled={!profileLoaded}
+              rows={3}
+              className={`${inputClass} resize-none`}
+            />
+          </Field>
+          <div className="flex justify-end">
+            <button
+              type="button"
+              className={buttonClass}
+              onClick={saveProfile}
+              disabled={!profileLoaded || savingProfile}
+            >
+              {savingProfile ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </section>
+
+        {/* Change password */}
+        <section className="bg-white rounded-lg shadow p-6 space-y-4">
+          <h3 className="text-lg font-semibold">Change password</h3>
+          <Field label="Current password">
+            <input
+              type="password"
+              name="current"
+              value={passwords.current}
+              onChange={handlePasswordChange}
+              autoComplete="current-password"
+              className={inputClass}
+            />
+          </Field>
+          <Field label="New password">
+            <input
+              type="password"
+              name="next"
+              value={passwords.next}
+              onChange={handlePasswordChange}
+              autoComplete="new-password"
+              className={inputClass}
+            />
+          </Field>
+          <PasswordStrengthMeter password={passwords.next} />
+          <Field label="Confirm new password">
+            <input
+              type="password"
+              name="confirm"
+              value={passwords.confirm}
+              onChange={handlePasswordChange}
+              autoComplete="new-password"
+              className={inputClass}
+            />
+          </Field>
+          {passwords.confirm && passwords.confirm !== passwords.next && (
+            <div className="text-xs text-red-500">Passwords do not match</div>
+          )}
+          <div className="flex justify-end">
+            <button
+              type="button"
+              className={buttonClass}
+              onClick={submitPasswordChange}
+              disabled={changingPassword}
+            >
+              {changingPassword ? 'Changing...' : 'Change password'}
+            </button>
+          </div>
+        </section>
       </div>
     </div>
   );
@@ -1,6 +1,12 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, {
+  useState,
+  useEffect,
+  useRef,
+  useMemo,
+  useCallback,
+} from 'react';
 import * as pdfjsLib from 'pdfjs-dist';
-import 'pdfjs-dist/build/pdf.worker.min.mjs';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
 import {
   FiChevronLeft,
   FiChevronRight,
@@ -8,61 +14,120 @@ import {
   FiGrid,
   FiMinimize,
   FiBookmark,
+  FiSearch,
+  FiList,
 } from 'react-icons/fi';
 import { IoMdArrowRoundBack } from 'react-icons/io';
+import {
+  BsBookmarkPlus,
+  BsBookmarkFill,
+  BsHighlighter,
+  BsJournalText,
+} from 'react-icons/bs';
 import ReaderSettings from '../components/ReaderSettings';
+import {
+  PageColors,
+  PageMode,
+  ReaderTheme,
+  bgOptions,
+  pageColorsFor,
+  themeOptions,
+} from '../utils/readerOptions';
 import OverviewGrid from '../components/OverviewGrid';
 import BookmarkSidebar from '../components/BookmarkSidebar';
+import SearchPanel from '../components/SearchPanel';
+import TocSidebar from '../components/TocSidebar';
+import PageLayers from '../components/PageLayers';
+import ScrollPageView from '../components/ScrollPageView';
+import HighlightSidebar from '../components/HighlightSidebar';
+import DownloadProgress from '../components/DownloadProgress';
+import { useReadingProgress } from '../hooks/useReadingProgress';
+import { useBookmarks } from '../hooks/useBookmarks';
+import { useZoom } from '../hooks/useZoom';
+import { useHighlights, HIGHLIGHT_COLORS } from '../hooks/useHighlights';
+import { usePdfSearch } from '../hooks/usePdfSearch';
+import { usePdfOutline } from '../hooks/usePdfOutline';
+import { ReaderLinkService } from '../utils/pdfLinks';
+import { offlineMeta } from '../utils/offlineBooks';
+import {
+  IpcRangeTransport,
+  RANGE_CHUNK_SIZE,
+} from '../utils/pdfRangeTransport';
 
-import { Book } from '../services/bookService';
+import bookService, { Book } from '../services/bookService';
+import {
+  ReaderSettings as ReaderPreferences,
+  useSettings,
+} from '../context/SettingsContext';
+import type { DownloadProgress as DownloadStatus } from '../../../shared/ipc';
 import './ReaderPage.css';
 
-pdfjsLib.GlobalWorkerOptions.workerSrc =
-  'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/4.8.69/pdf.worker.min.js';
+// The worker that ships with the installed pdfjs-dist, served by the app
+// itself as the Content-Security-Policy requires
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
 
 // PDF fetching is now handled via Electron IPC to bypass CORS
 
+// Wait for page turns to settle before putting the page in the URL; every
+// update re-renders the whole app
+const PAGE_URL_DEBOUNCE_MS = 500;
+
 interface ReaderPageProps {
   book: Book;
+  // Page to open at, e.g. from a link; otherwise the reading position resumes
+  initialPage?: number;
+  onPageChange?: (page: number) => void;
   onBack: () => void;
 }
 
-interface Bookmark {
-  page: number;
-  note: string;
-}
-
 const fontOptions = [
   { label: 'Default Font', value: 'inherit' },
   { label: 'Merriweather', value: 'Merriweather, serif' },
   { label: 'Roboto Slab', value: 'Roboto Slab, serif' },
 ];
 
-const bgOptions = [
-  { label: 'White', value: '#fff' },
-  { label: 'Sepia', value: '#f6ecd9' },
-  { label: 'Gray', value: '#f3f4f6' },
-  { label: 'Dark', value: '#181818' },
-];
-
-const ReaderPage: React.FC<ReaderPageProps> = ({ book, onBack }) => {
+const ReaderPage: React.FC<ReaderPageProps> = ({
+  book,
+  initialPage,
+  onPageChange,
+  onBack,
+}) => {
+  const {
+    getBookReaderSettings,
+    updateBookReaderSettings,
+    updateReaderSettings,
+    resetBookReaderSettings,
+    settings,
+  } = useSettings();
   const [bookUrl, setBookUrl] = useState<string>('');
   const [pdf, setPdf] = useState<pdfjsLib.PDFDocumentProxy | null>(null);
   const [numPages, setNumPages] = useState<number>(0);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
+  // Set while the PDF downloads; progress stays null until the first report
+  const [downloading, setDownloading] = useState<boolean>(false);
+  const [downloadProgress, setDownloadProgress] =
+    useState<DownloadStatus | null>(null);
   const [page, setPage] = useState<number>(1);
-  const [fontSize, setFontSize] = useState<number>(16);
-  const [font, setFont] = useState<string>(fontOptions[0].value);
+  const [serverReadPage, setServerReadPage] = useState<number | null>(null);
   const [showSettings, setShowSettings] = useState<boolean>(false);
-  const [bgColor, setBgColor] = useState<string>(bgOptions[0].value);
-  const [customBg, setCustomBg] = useState<string>('');
-  const [singlePage, setSinglePage] = useState<boolean>(true);
   const [isFullscreen, setIsFullscreen] = useState<boolean>(false);
   const [showOverview, setShowOverview] = useState<boolean>(false);
   const [showBookmarks, setShowBookmarks] = useState<boolean>(false);
-  const [bookmarks, setBookmarks] = useState<Bookmark[]>([]);
-  const [zoom, setZoom] = useState<number>(1.0);
+  const [showSearch, setShowSearch] = useState<boolean>(false);
+  const [showToc, setShowToc] = useState<boolean>(false);
+  const [showHighlights, setShowHighlights] = useState<boolean>(false);
+  // Colour of the highlighter while it's switched on
+  const [highlightColor, setHighlightColor] = useState<string | null>(null);
+  const [lastHighlightColor, setLastHighlightColor] = useState<string>(
+    HIGHLIGHT_COLORS[0].value,
+  );
+  // Whether the book's license allows selecting and copying its text
+  const [allowCopy, setAllowCopy] = useState<boolean>(false);
+  // Pages currently drawn on the canvas, for the text/annotation layers
+  const [renderedPages, setRenderedPages] = useState<
+    { pageNumber: number; scale: number; left: number }[]
+  >([]);
   const [thumbnails, setThumbnails] = useState<{ [key: number]: string }>({});
   const [showFloatingSettings, setShowFloatingSettings] =
     useState<boolean>(false);
@@ -70,20 +135,130 @@ const ReaderPage: React.FC<ReaderPageProps> = ({ book, onBack }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
-  // Bookmark handlers
-  const jumpToBookmark = (targetPage: number) => {
-    console.log('[ReaderPage] Jumping to bookmark. Target page:', targetPage);
-    setPage(targetPage);
+  // Reader preferences: the global ones with this book's overrides on top.
+  // Changes made while reading only apply to this book.
+  const preferences = getBookReaderSettings(book.bookId);
+  const { fontSize, font, bgColor, customBg, pageMode, theme } = preferences;
+  const hasBookOverrides = Boolean(settings.bookOverrides[book.bookId]);
+  const updatePreferences = useCallback(
+    (patch: Partial<ReaderPreferences>) =>
+      updateBookReaderSettings(book.bookId, patch),
+    [book.bookId, updateBookReaderSettings],
+  );
+  const setFontSize = (fontSize: number): void =>
+    updatePreferences({ fontSize });
+  const setFont = (font: string): void => updatePreferences({ font });
+  const setBgColor = (bgColor: string): void => updatePreferences({ bgColor });
+  const setCustomBg = (customBg: string): void =>
+    updatePreferences({ customBg });
+  const setPageMode = (pageMode: PageMode): void =>
+    updatePreferences({ pageMode });
+  // Switching theme also switches the background around the page to match
+  const setTheme = (theme: ReaderTheme): void =>
+    updatePreferences({
+      theme,
+      bgColor:
+        themeOptions.find((opt) => opt.value === theme)?.surround ?? bgColor,
+      customBg: '',
+    });
+  const setCustomThemeColors = (customThemeColors: PageColors): void =>
+    updatePreferences({ customThemeColors });
+
+  // Colours pages are drawn with (canvas, scroll view and thumbnails)
+  const { background: customPageBackground, foreground: customPageForeground } =
+    preferences.customThemeColors;
+  const pageColors = useMemo(
+    () =>
+      pageColorsFor(theme, {
+        background: customPageBackground,
+        foreground: customPageForeground,
+      }),
+    [theme, customPageBackground, customPageForeground],
+  );
+  // Makes this book's preferences the default for every book
+  const saveAsDefault = (): void => {
+    updateReaderSettings(preferences);
+    resetBookReaderSettings(book.bookId);
+  };
+
+  // Fitted zoom modes follow the container
+  const { zoom, zoomMode, setZoomMode, zoomIn, zoomOut } = useZoom({
+    pdf,
+    page,
+    pageMode,
+    containerRef,
+    zoomMode: preferences.zoomMode,
+    customZoom: preferences.customZoom,
+    onChange: updatePreferences,
+  });
+
+  // Reading progress (resume + server sync). Fall back to the library's
+  // readPercent when the detail endpoint doesn't report a page.
+  const serverPage =
+    serverReadPage ??
+    (book.readPercent && numPages
+      ? Math.round((book.readPercent / 100) * numPages)
+      : null);
+  const { conflictPage, acceptServerPage, dismissConflict, flush } =
+    useReadingProgress({
+      bookId: book.bookId,
+      page,
+      numPages,
+      serverPage,
+      startPage: initialPage,
+      onRestore: setPage,
+    });
+
+  const onPageChangeRef = useRef(onPageChange);
+  onPageChangeRef.current = onPageChange;
+  useEffect(() => {
+    if (!numPages) return;
+    const timer = setTimeout(
+      () => onPageChangeRef.current?.(page),
+      PAGE_URL_DEBOUNCE_MS,
+    );
+    return () => clearTimeout(timer);
+  }, [page, numPages]);
+
+  const handleBack = async (): Promise<void> => {
+    await flush();
+    onBack();
   };
 
-  const removeBookmark = (targetPage: number) => {
-    setBookmarks((bms) => bms.filter((bm) => bm.page !== targetPage));
+  // Bookmarks (stored locally, synced with the server)
+  const {
+    bookmarks,
+    isBookmarked,
+    toggleBookmark,
+    removeBookmark,
+    editBookmark,
+  } = useBookmarks(book.bookId);
+
+  // Highlights (stored locally, synced with the server when it accepts them)
+  const { highlights, addHighlight, removeHighlight, editHighlight } =
+    useHighlights(book.bookId);
+
+  const toggleHighlighter = (): void => {
+    setHighlightColor((current) => (current ? null : lastHighlightColor));
   };
 
-  const editBookmark = (targetPage: number, note: string) => {
-    setBookmarks((bms) =>
-      bms.map((bm) => (bm.page === targetPage ? { ...bm, note } : bm)),
-    );
+  const selectHighlightColor = (color: string): void => {
+    setLastHighlightColor(color);
+    setHighlightColor(color);
+  };
+
+  // Full-text search (index built in a worker on first use)
+  const search = usePdfSearch(pdf, setPage);
+  const outline = usePdfOutline(pdf);
+
+  const openSearch = (): void => {
+    setShowSearch(true);
+    search.startIndexing();
+  };
+
+  const jumpToBookmark = (targetPage: number) => {
+    console.log('[ReaderPage] Jumping to bookmark. Target page:', targetPage);
+    setPage(targetPage);
   };
 
   // Fullscreen toggle
@@ -91,6 +266,9 @@ const ReaderPage: React.FC<ReaderPageProps> = ({ book, onBack }) => {
     setIsFullscreen((f) => !f);
   };
 
+  // Scroll mode steps one page at a time like single-page mode
+  const singlePage = pageMode !== 'double';
+
   // Navigation
   const goPrev = () => {
     setPage((p) => Math.max(1, p - (singlePage ? 1 : 2)));
@@ -104,57 +282,190 @@ const ReaderPage: React.FC<ReaderPageProps> = ({ book, onBack }) => {
     }
   };
 
+  // Links in the PDF navigate through the same handlers as the controls
+  const navigationRef = useRef({ goNext, goPrev });
+  navigationRef.current = { goNext, goPrev };
+  const linkService = useMemo(
+    () =>
+      pdf
+        ? new ReaderLinkService(pdf, {
+            goToPage: setPage,
+            goNext: () => navigationRef.current.goNext(),
+            goPrev: () => navigationRef.current.goPrev(),
+          })
+        : null,
+    [pdf],
+  );
+
+  // Text, annotation and highlight layers over a rendered page
+  const renderPageLayers = (
+    pageNumber: number,
+    scale: number,
+    left = 0,
+  ): React.ReactNode =>
+    pdf &&
+    linkService && (
+      <PageLayers
+        key={pageNumber}
+        pdf={pdf}
+        pageNumber={pageNumber}
+        scale={scale}
+        left={left}
+        linkService={linkService}
+        allowCopy={allowCopy}
+        highlights={highlights.filter((hl) => hl.page === pageNumber)}
+        highlightColor={highlightColor}
+        onHighlight={(highlightPage, text, rects) =>
+          addHighlight(highlightPage, text, rects, highlightColor!)
+        }
+      />
+    );
+
+  // The book's details only matter for caching; the download follows the ID
+  const bookRef = useRef(book);
+  bookRef.current = book;
+
   // Fetch book details
   useEffect(() => {
     let objectUrl: string | null = null;
+    // Leaving the page (or switching books) cancels the download
+    let cancelled = false;
+    let downloadId: string | null = null;
+    let rangeTransport: IpcRangeTransport | null = null;
+    let loadingTask: pdfjsLib.PDFDocumentLoadingTask | null = null;
+    const unsubscribeProgress = window.api?.books.onDownloadProgress(
+      (progress) => {
+        if (progress.downloadId === downloadId) setDownloadProgress(progress);
+      },
+    );
+
+    // Load PDF bytes, or a range stream of them, into pdfjs
+    const openPdf = async (
+      source: Uint8Array | Blob | IpcRangeTransport,
+      remoteUrl = '',
+    ): Promise<pdfjsLib.PDFDocumentProxy> => {
+      // Cleanup has already run; nothing made here would be released
+      if (cancelled) throw new Error('Reader closed');
+      let documentSource: { url: string } | {
+        range: IpcRangeTransport;
+        rangeChunkSize: number;
+        disableAutoFetch: boolean;
+        disableStream: boolean;
+      };
+      if (source instanceof IpcRangeTransport) {
+        setBookUrl(remoteUrl);
+        // Only what the shown pages need is requested; the main process
+        // downloads the rest by itself
+        documentSource = {
+          range: source,
+          rangeChunkSize: RANGE_CHUNK_SIZE,
+          disableAutoFetch: true,
+          disableStream: true,
+        };
+      } else {
+        const pdfBlob =
+          source instanceof Blob
+            ? source
+            : new Blob([source], { type: 'application/pdf' });
+        objectUrl = URL.createObjectURL(pdfBlob);
+        setBookUrl(objectUrl);
+        documentSource = { url: objectUrl };
+      }
+      // No eval: the Content-Security-Policy doesn't allow it
+      loadingTask = pdfjsLib.getDocument({
+        ...documentSource,
+        isEvalSupported: false,
+      });
+      const loadedPdf = await loadingTask.promise;
+      if (cancelled) {
+        await loadedPdf.destroy();
+        throw new Error('Reader closed');
+      }
+      setPdf(loadedPdf);
+      setNumPages(loadedPdf.numPages);
+      return loadedPdf;
+    };
+
     const fetchBookDetails = async () => {
+      let openedOffline = false;
       try {
         setLoading(true);
         setError(null);
 
-        // Get auth data from localStorage
-        const authToken = localStorage.getItem('auth_token');
-        const userId = localStorage.getItem('user_id');
+        // Open the offline copy straight away if there is one. The detail
+        // request below then only refreshes the server's reading position.
+        if (window.api) {
+          const offlineCopy = await window.api.books.readOffline(book.bookId);
+          if (cancelled) return;
+          if (offlineCopy && offlineCopy.length > 0) {
+            const loadedPdf = await openPdf(offlineCopy);
+            openedOffline = true;
+            console.log('[ReaderPage] PDF loaded from offline cache, pages:', loadedPdf.numPages);
+          }
+        }
 
         console.log('[ReaderPage] Book ID:', book.bookId);
-        console.log('[ReaderPage] Auth token:', authToken);
-        console.log('[ReaderPage] User ID:', userId);
-        // Direct fetch to API
-        const apiResponse = await fetch(`https://booksiam.com/book-detail/${book.bookId}`, {
-          method: 'GET',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${authToken}`,
-            'UserId': userId || '',
-          },
-        });
-
-        if (!apiResponse.ok) {
-          throw new Error(`API request failed: ${apiResponse.status}`);
+        const detailResponse = await bookService.getBookDetails(book.bookId);
+        if (!detailResponse.success) {
+          throw new Error(`API request failed: ${detailResponse.error}`);
         }
 
-        const data = await apiResponse.json();
+        const data = detailResponse.data;
         console.log('[ReaderPage] Book details:', data);
 
+        // Last page the server has recorded, if the API reports one
+        if (typeof data?.readPage === 'number') {
+          setServerReadPage(data.readPage);
+        }
+        setAllowCopy(data?.allowCopy === true);
+
+        if (openedOffline) return;
+
         if (data?.bookUrl) {
           const remoteUrl = data.bookUrl;
           console.log('[ReaderPage] Loading PDF from:', remoteUrl);
           
           try {
             // Use Electron IPC to fetch PDF and bypass CORS
-            if (window.electron?.ipcRenderer?.invoke) {
+            // Read in byte ranges where the server allows it, so the first
+            // pages show while the rest is still downloading
+            const stream = window.api
+              ? await window.api.books.openStream(remoteUrl, offlineMeta(bookRef.current))
+              : null;
+            if (cancelled) {
+              if (stream) {
+                window.api.books.closeStream(stream.streamId).catch(() => {});
+              }
+              return;
+            }
+            if (stream) {
+              rangeTransport = new IpcRangeTransport(stream, (rangeErr) => {
+                console.error('Error reading PDF range:', rangeErr);
+                setError('Failed to load PDF: ' + (rangeErr instanceof Error ? rangeErr.message : String(rangeErr)));
+              });
+              const loadedPdf = await openPdf(rangeTransport, remoteUrl);
+              console.log('[ReaderPage] PDF opened in byte ranges, pages:', loadedPdf.numPages);
+            } else if (window.api) {
               console.log('[ReaderPage] Fetching PDF via Electron IPC...');
-              const uint8Array = await window.electron.ipcRenderer.invoke('fetch-pdf', remoteUrl);
-              
+              // Passing the book lets the main process cache it for offline use
+              downloadId = `${book.bookId}-${Date.now()}`;
+              setDownloadProgress(null);
+              setDownloading(true);
+              let uint8Array: Uint8Array;
+              try {
+                uint8Array = await window.api.books.fetchPdf(
+                  remoteUrl,
+                  offlineMeta(bookRef.current),
+                  downloadId,
+                );
+              } finally {
+                downloadId = null;
+                setDownloading(false);
+              }
+              if (cancelled) return;
+
               if (uint8Array && uint8Array.length > 0) {
-                // Create blob from the Uint8Array
-                const pdfBlob = new Blob([uint8Array], { type: 'application/pdf' });
-                objectUrl = URL.createObjectURL(pdfBlob);
-                setBookUrl(objectUrl);
-                const loadingTask = pdfjsLib.getDocument(objectUrl);
-                const loadedPdf = await loadingTask.promise;
-                setPdf(loadedPdf);
-                setNumPages(loadedPdf.numPages);
+                const loadedPdf = await openPdf(uint8Array);
                 console.log('[ReaderPage] PDF loaded successfully via IPC, pages:', loadedPdf.numPages);
               } else {
                 throw new Error('IPC fetch returned empty data');
@@ -174,16 +485,11 @@ const ReaderPage: React.FC<ReaderPageProps> = ({ book, onBack }) => {
               
               const pdfRes = await fetch(fetchUrl);
               if (!pdfRes.ok) throw new Error(`Failed to fetch PDF: ${pdfRes.status}`);
-              const pdfBlob = await pdfRes.blob();
-              objectUrl = URL.createObjectURL(pdfBlob);
-              setBookUrl(objectUrl);
-              const loadingTask = pdfjsLib.getDocument(objectUrl);
-              const loadedPdf = await loadingTask.promise;
-              setPdf(loadedPdf);
-              setNumPages(loadedPdf.numPages);
+              const loadedPdf = await openPdf(await pdfRes.blob());
               console.log('[ReaderPage] PDF loaded successfully via proxy, pages:', loadedPdf.numPages);
             }
           } catch (pdfErr) {
+            if (cancelled) return;
             console.error('Error loading PDF:', pdfErr);
             setError('Failed to load PDF: ' + (pdfErr instanceof Error ? pdfErr.message : String(pdfErr)));
           }
@@ -191,6 +497,13 @@ const ReaderPage: React.FC<ReaderPageProps> = ({ book, onBack }) => {
           setError('No book URL found for this book');
         }
       } catch (err) {
+        // Left the page while loading; the document was destroyed
+        if (cancelled) return;
+        // Reading offline: the book is already open, only the server sync failed
+        if (openedOffline) {
+          console.warn('[ReaderPage] Book details unavailable, reading offline copy:', err);
+          return;
+        }
         console.error('Error fetching book details:', err);
         setError('Book not found');
       } finally {
@@ -201,6 +514,16 @@ const ReaderPage: React.FC<ReaderPageProps> = ({ book, onBack }) => {
     fetchBookDetails();
 
     return () => {
+      cancelled = true;
+      unsubscribeProgress?.();
+      // Destroying the task destroys its document (and closes a range stream)
+      loadingTask?.destroy();
+      rangeTransport?.abort();
+      if (downloadId) {
+        window.api.books.cancelDownload(downloadId).catch((err) => {
+          console.warn('[ReaderPage] Failed to cancel download:', err);
+        });
+      }
       if (objectUrl) URL.revokeObjectURL(objectUrl);
     };
   }, [book.bookId]);
@@ -214,7 +537,13 @@ const ReaderPage: React.FC<ReaderPageProps> = ({ book, onBack }) => {
 
   // Render PDF pages
   useEffect(() => {
-    if (!pdf || !canvasRef.current || showOverview) return;
+    if (!pdf || !canvasRef.current || showOverview || pageMode === 'scroll') {
+      return;
+    }
+
+    // A newer render (page turn, zoom, search) supersedes this one
+    let cancelled = false;
+    let renderTask: pdfjsLib.RenderTask | null = null;
 
     const renderPage = async () => {
       const canvas = canvasRef.current!;
@@ -228,11 +557,16 @@ const ReaderPage: React.FC<ReaderPageProps> = ({ book, onBack }) => {
           canvas.height = viewport.height;
           canvas.width = viewport.width;
 
-          await pageObj.render({
+          renderTask = pageObj.render({
             canvasContext: context,
             viewport,
             canvas,
-          }).promise;
+            pageColors,
+          });
+          await renderTask.promise;
+          if (cancelled) return;
+          await search.drawHighlights(context, page, viewport);
+          setRenderedPages([{ pageNumber: page, scale: zoom, left: 0 }]);
           console.log(
             `[ReaderPage] Rendered single page ${page} at zoom ${zoom}`,
           );
@@ -272,14 +606,21 @@ const ReaderPage: React.FC<ReaderPageProps> = ({ book, onBack }) => {
           tempCanvas.width = scaledLeftViewport.width;
           tempCanvas.height = scaledLeftViewport.height;
 
-          await leftPage.render({
+          renderTask = leftPage.render({
             canvasContext: tempContext,
             viewport: scaledLeftViewport,
             canvas: tempCanvas,
-          }).promise;
+            pageColors,
+          });
+          await renderTask.promise;
+          if (cancelled) return;
+          await search.drawHighlights(tempContext, leftPageNum, scaledLeftViewport);
 
           // Draw left page on main canvas
           context.drawImage(tempCanvas, 0, 0);
+          const layers = [
+            { pageNumber: leftPageNum, scale: zoom * scaleFactor, left: 0 },
+          ];
 
           // Render right page if available
           if (rightPageNum <= pdf.numPages) {
@@ -293,15 +634,28 @@ const ReaderPage: React.FC<ReaderPageProps> = ({ book, onBack }) => {
             tempCanvas.height = scaledRightViewport.height;
             tempContext.clearRect(0, 0, tempCanvas.width, tempCanvas.height);
 
-            await rightPage.render({
+            renderTask = rightPage.render({
               canvasContext: tempContext,
               viewport: scaledRightViewport,
               canvas: tempCanvas,
-            }).promise;
+              pageColors,
+            });
+            await renderTask.promise;
+            if (cancelled) return;
+            await search.drawHighlights(
+              tempContext,
+              rightPageNum,
+              scaledRightViewport,
+            );
 
             // Draw right page on main canvas with offset
             const rightPageX = scaledLeftViewport.width + pageGap * scaleFactor;
             context.drawImage(tempCanvas, rightPageX, 0);
+            layers.push({
+              pageNumber: rightPageNum,
+              scale: zoom * scaleFactor,
+              left: rightPageX,
+            });
             console.log(
               `[ReaderPage] Rendered double page ${leftPageNum}-${rightPageNum} at zoom ${zoom}`,
             );
@@ -310,15 +664,37 @@ const ReaderPage: React.FC<ReaderPageProps> = ({ book, onBack }) => {
               `[ReaderPage] Rendered single page ${leftPageNum} in double-page mode (no right page)`,
             );
           }
+          setRenderedPages(layers);
         }
       } catch (err) {
+        if (err instanceof pdfjsLib.RenderingCancelledException) return;
         console.error('Error rendering page:', err);
         setError('Error rendering PDF');
       }
     };
 
     renderPage();
-  }, [pdf, page, zoom, singlePage, showOverview]);
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [
+    pdf,
+    page,
+    zoom,
+    pageMode,
+    pageColors,
+    showOverview,
+    search.drawHighlights,
+  ]);
+
+  // Thumbnails follow the page theme; drop the ones drawn with old colours
+  const thumbnailColorsRef = useRef(pageColors);
+  useEffect(() => {
+    thumbnailColorsRef.current = pageColors;
+    setThumbnails({});
+  }, [pageColors]);
 
   // Generate thumbnails for overview
   const generateThumbnails = async () => {
@@ -344,11 +720,15 @@ const ReaderPage: React.FC<ReaderPageProps> = ({ book, onBack }) => {
               canvas.height = viewport.height;
               canvas.width = viewport.width;
 
+              const colors = pageColors;
               await page.render({
                 canvasContext: context,
                 viewport,
                 canvas,
+                pageColors: colors,
               }).promise;
+              // The theme changed while this was rendering
+              if (thumbnailColorsRef.current !== colors) return;
 
               setThumbnails((prev) => ({
                 ...prev,
@@ -369,31 +749,38 @@ const ReaderPage: React.FC<ReaderPageProps> = ({ book, onBack }) => {
     }
   };
 
-  // Keyboard navigation
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === 'ArrowRight') goNext();
-      else if (e.key === 'ArrowLeft') goPrev();
-      else if (e.key === '+') setZoom((z) => Math.min(z + 0.2, 3));
-      else if (e.key === '-') setZoom((z) => Math.max(z - 0.2, 0.5));
-      else if (e.key === 'g') {
-        setShowOverview((prev) => !prev);
-        if (!showOverview) generateThumbnails();
-      }
-    };
+  // Keyboard navigation. The handler is replaced every render so it always
+  // steps by the current page mode; the listener itself stays put.
+  const handleKeyDownRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  handleKeyDownRef.current = (e: KeyboardEvent): void => {
+    // Ctrl/Cmd+F opens search; other shortcuts don't apply while typing
+    if ((e.ctrlKey || e.metaKey) && e.key === 'f') {
+      e.preventDefault();
+      openSearch();
+      return;
+    }
+    const target = e.target as HTMLElement | null;
+    if (target && ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) {
+      return;
+    }
 
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [pdf, showOverview]);
+    // Alt+arrows go back/forward in the app's history instead
+    if (e.altKey) return;
 
-  // Resize handler
+    if (e.key === 'ArrowRight') goNext();
+    else if (e.key === 'ArrowLeft') goPrev();
+    else if (e.key === '+') zoomIn();
+    else if (e.key === '-') zoomOut();
+    else if (e.key === 'g') {
+      setShowOverview((prev) => !prev);
+      if (!showOverview) generateThumbnails();
+    }
+  };
   useEffect(() => {
-    const handleResize = () => {
-      setZoom(window.innerWidth < 768 ? 0.8 : 1.0);
-    };
-    window.addEventListener('resize', handleResize);
-    handleResize();
-    return () => window.removeEventListener('resize', handleResize);
+    const handleKeyDown = (e: KeyboardEvent): void =>
+      handleKeyDownRef.current(e);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
   }, []);
 
   // Progress calculation
@@ -473,10 +860,20 @@ const ReaderPage: React.FC<ReaderPageProps> = ({ book, onBack }) => {
                 customBg={customBg}
                 setCustomBg={setCustomBg}
                 bgOptions={bgOptions}
-                singlePage={singlePage}
-                setSinglePage={setSinglePage}
+                pageMode={pageMode}
+                setPageMode={setPageMode}
+                theme={theme}
+                setTheme={setTheme}
+                customThemeColors={preferences.customThemeColors}
+                setCustomThemeColors={setCustomThemeColors}
                 zoom={zoom}
-                setZoom={setZoom}
+                zoomMode={zoomMode}
+                setZoomMode={setZoomMode}
+                zoomIn={zoomIn}
+                zoomOut={zoomOut}
+                hasBookOverrides={hasBookOverrides}
+                onSaveAsDefault={saveAsDefault}
+                onResetToDefault={() => resetBookReaderSettings(book.bookId)}
               />
             </div>
           )}
@@ -502,7 +899,7 @@ const ReaderPage: React.FC<ReaderPageProps> = ({ book, onBack }) => {
           <button
             type="button"
             className="text-white text-2xl"
-            onClick={onBack}
+            onClick={handleBack}
           >
             <IoMdArrowRoundBack />
           </button>
@@ -511,6 +908,14 @@ const ReaderPage: React.FC<ReaderPageProps> = ({ book, onBack }) => {
           </span>
         </div>
         <div className="flex gap-2 items-center">
+          <button
+            type="button"
+            onClick={() => setShowToc((prev) => !prev)}
+            title="Contents"
+            className="text-white"
+          >
+            <FiList size={22} />
+          </button>
           <button
             type="button"
             onClick={() => {
@@ -524,12 +929,70 @@ const ReaderPage: React.FC<ReaderPageProps> = ({ book, onBack }) => {
           </button>
           <button
             type="button"
-            onClick={() => setShowBookmarks(true)}
+            onClick={openSearch}
+            title="Search (Ctrl+F)"
+            className="text-white"
+          >
+            <FiSearch size={22} />
+          </button>
+          <button
+            type="button"
+            onClick={() => toggleBookmark(page)}
+            title={isBookmarked(page) ? 'Remove bookmark' : 'Bookmark this page'}
+            className="text-white"
+          >
+            {isBookmarked(page) ? (
+              <BsBookmarkFill size={20} />
+            ) : (
+              <BsBookmarkPlus size={20} />
+            )}
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setShowHighlights(false);
+              setShowBookmarks(true);
+            }}
             title="Bookmarks"
             className="text-white"
           >
             <FiBookmark size={22} />
           </button>
+          <div className="relative flex items-center">
+            <button
+              type="button"
+              onClick={toggleHighlighter}
+              title={highlightColor ? 'Stop highlighting' : 'Highlight text'}
+              className={`text-white rounded p-1 ${highlightColor ? 'bg-white/30' : ''}`}
+            >
+              <BsHighlighter size={20} />
+            </button>
+            {highlightColor && (
+              <div className="absolute top-full right-0 mt-2 flex gap-1 rounded bg-white p-1 shadow">
+                {HIGHLIGHT_COLORS.map((color) => (
+                  <button
+                    key={color.value}
+                    type="button"
+                    onClick={() => selectHighlightColor(color.value)}
+                    title={color.label}
+                    className={`w-5 h-5 rounded-full border ${highlightColor === color.value ? 'ring-2 ring-blue-400' : ''}`}
+                    style={{ background: color.value }}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+          <button
+            type="button"
+            onClick={() => {
+              setShowBookmarks(false);
+              setShowHighlights(true);
+            }}
+            title="Highlights"
+            className="text-white"
+          >
+            <BsJournalText size={20} />
+          </button>
           {/* <button
             type="button"
             onClick={handleFullscreen}
@@ -562,13 +1025,48 @@ const ReaderPage: React.FC<ReaderPageProps> = ({ book, onBack }) => {
           customBg={customBg}
           setCustomBg={setCustomBg}
           bgOptions={bgOptions}
-          singlePage={singlePage}
-          setSinglePage={setSinglePage}
+          pageMode={pageMode}
+          setPageMode={setPageMode}
+          theme={theme}
+          setTheme={setTheme}
+          customThemeColors={preferences.customThemeColors}
+          setCustomThemeColors={setCustomThemeColors}
           zoom={zoom}
-          setZoom={setZoom}
+          zoomMode={zoomMode}
+          setZoomMode={setZoomMode}
+          zoomIn={zoomIn}
+          zoomOut={zoomOut}
+          hasBookOverrides={hasBookOverrides}
+          onSaveAsDefault={saveAsDefault}
+          onResetToDefault={() => resetBookReaderSettings(book.bookId)}
         />
       )}
 
+      {/* Server progress is ahead of this device */}
+      {conflictPage !== null && (
+        <div className="mx-8 mt-4 flex items-center justify-between gap-4 rounded-lg border border-blue-200 bg-blue-50 px-4 py-3 text-sm text-blue-800">
+          <span>
+            You have read up to page {conflictPage} on another device.
+          </span>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={acceptServerPage}
+              className="px-3 py-1 rounded bg-blue-500 text-white hover:bg-blue-600"
+            >
+              Go to page {conflictPage}
+            </button>
+            <button
+              type="button"
+              onClick={dismissConflict}
+              className="px-3 py-1 rounded bg-gray-100 text-gray-700 hover:bg-gray-200"
+            >
+              Stay here
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Overview and Bookmarks */}
       {showOverview && (
         <OverviewGrid
@@ -577,6 +1075,7 @@ const ReaderPage: React.FC<ReaderPageProps> = ({ book, onBack }) => {
             (_, i) => `Page ${i + 1}`,
           )}
           thumbnails={thumbnails}
+          pageBackground={pageColors?.background}
           bookmarks={bookmarks.map((bm) => bm.page)}
           searchTerm=""
           onJump={(idx: number) => {
@@ -588,6 +1087,7 @@ const ReaderPage: React.FC<ReaderPageProps> = ({ book, onBack }) => {
       )}
       {showBookmarks && (
         <BookmarkSidebar
+          bookTitle={book.bookName}
           bookmarks={bookmarks}
           onJump={jumpToBookmark}
           onRemove={removeBookmark}
@@ -596,6 +1096,48 @@ const ReaderPage: React.FC<ReaderPageProps> = ({ book, onBack }) => {
         />
       )}
 
+      {showHighlights && (
+        <HighlightSidebar
+          highlights={highlights}
+          onJump={setPage}
+          onRemove={removeHighlight}
+          onEdit={editHighlight}
+          onClose={() => setShowHighlights(false)}
+        />
+      )}
+
+      {showToc && (
+        <TocSidebar
+          entries={outline.entries}
+          generated={outline.generated}
+          loading={outline.loading}
+          currentPage={page}
+          onJump={setPage}
+          onClose={() => setShowToc(false)}
+        />
+      )}
+
+      {showSearch && (
+        <SearchPanel
+          query={search.query}
+          onQueryChange={search.setQuery}
+          wholeWord={search.wholeWord}
+          onWholeWordChange={search.setWholeWord}
+          hits={search.hits}
+          truncated={search.truncated}
+          activeIndex={search.activeIndex}
+          indexedPages={search.progress.done}
+          totalPages={search.progress.total}
+          onSelect={search.selectHit}
+          onNext={search.nextHit}
+          onPrev={search.prevHit}
+          onClose={() => {
+            setShowSearch(false);
+            search.setQuery('');
+          }}
+        />
+      )}
+
       {/* Main Reading Area */}
       <div
         className="p-8 flex flex-col justify-between"
@@ -606,7 +1148,14 @@ const ReaderPage: React.FC<ReaderPageProps> = ({ book, onBack }) => {
             <div className="flex flex-col items-center justify-center h-64 space-y-4">
               <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
               <div className="text-lg text-gray-600">Loading book...</div>
-              <div className="text-sm text-gray-400">Please wait while we prepare your reading experience</div>
+              {downloading ? (
+                <DownloadProgress
+                  progress={downloadProgress}
+                  onCancel={handleBack}
+                />
+              ) : (
+                <div className="text-sm text-gray-400">Please wait while we prepare your reading experience</div>
+              )}
             </div>
           ) : error || !bookUrl ? (
             <div className="flex flex-col items-center justify-center h-64 space-y-4">
@@ -621,14 +1170,26 @@ const ReaderPage: React.FC<ReaderPageProps> = ({ book, onBack }) => {
                 Try Again
               </button>
             </div>
+          ) : pageMode === 'scroll' && pdf ? (
+            <ScrollPageView
+              pdf={pdf}
+              page={page}
+              onPageChange={setPage}
+              zoom={zoom}
+              drawHighlights={search.drawHighlights}
+              renderLayers={renderPageLayers}
+              pageColors={pageColors}
+            />
           ) : (
             <div className="flex flex-col items-center w-full overflow-auto pb-4">
-              <div className="relative">
+              <div className="relative m-4">
                 <canvas
                   ref={canvasRef}
                   className="shadow-2xl rounded-lg border border-gray-200"
-                  style={{ maxWidth: '100%', height: 'auto' }}
                 />
+                {renderedPages.map((layer) =>
+                  renderPageLayers(layer.pageNumber, layer.scale, layer.left),
+                )}
                 {/* Page loading overlay */}
                 {pdf && (
                   <div className="absolute top-2 left-2 bg-black bg-opacity-60 text-white text-xs px-2 py-1 rounded">
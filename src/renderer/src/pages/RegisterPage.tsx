@@ -2,12 +2,19 @@ import React, { useState } from 'react';
 import toast from 'react-hot-toast';
 import { useAuth } from '../context/AuthContext';
 import bgimage from '../assets/bgimage.png';
+import PasswordStrengthMeter from '../components/PasswordStrengthMeter';
+import { checkPasswordStrength } from '../utils/passwordStrength';
 
 interface RegisterPageProps {
   onBack?: () => void;
+  // Continues to email verification for the new account
+  onRegistered?: (email: string) => void;
 }
 
-const RegisterPage: React.FC<RegisterPageProps> = ({ onBack }) => {
+const RegisterPage: React.FC<RegisterPageProps> = ({
+  onBack,
+  onRegistered,
+}) => {
   const { register } = useAuth();
   const [form, setForm] = useState({
     firstName: '',
@@ -31,13 +38,17 @@ const RegisterPage: React.FC<RegisterPageProps> = ({ onBack }) => {
       toast.error('Please accept the Terms and Conditions');
       return;
     }
+    if (!checkPasswordStrength(form.password).valid) {
+      toast.error('Please choose a stronger password');
+      return;
+    }
     
     setLoading(true);
     const success = await register(form as any);
     setLoading(false);
     if (success) {
       toast.success('Registered successfully, please verify email');
-      onBack?.();
+      onRegistered?.(form.email);
     } else {
       toast.error('Registration failed');
     }
@@ -161,6 +172,7 @@ const RegisterPage: React.FC<RegisterPageProps> = ({ onBack }) => {
                   )}
                 </button>
               </div>
+              <PasswordStrengthMeter password={form.password} />
             </div>
           </div>
 
@@ -0,0 +1,431 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { useAuth } from '../context/AuthContext';
+import { useUser } from '../context/UserContext';
+import { Language, useSettings } from '../context/SettingsContext';
+import {
+  bgOptions,
+  pageModeOptions,
+  themeOptions,
+  zoomModeOptions,
+} from '../utils/readerOptions';
+import type { Section } from '../utils/routes';
+import type {
+  AppInfo,
+  BookCacheStats,
+  ScreenProtectionStatus,
+} from '../../../shared/ipc';
+
+const GB = 1024 * 1024 * 1024;
+const cacheLimitOptions = [1, 2, 5, 10].map((size) => size * GB);
+
+const labels = {
+  th: {
+    title: 'การตั้งค่า',
+    reader: 'ค่าเริ่มต้นการอ่าน',
+    pageMode: 'รูปแบบหน้า',
+    zoomMode: 'การซูม',
+    background: 'สีพื้นหลัง',
+    theme: 'ธีมหน้ากระดาษ',
+    bookOverrides: 'หนังสือที่ตั้งค่าแยกไว้',
+    resetBookOverrides: 'ใช้ค่าเริ่มต้นกับทุกเล่ม',
+    cache: 'หนังสือออฟไลน์',
+    cacheUsage: 'พื้นที่ที่ใช้',
+    cacheBooks: 'จำนวนเล่ม',
+    cacheLimit: 'พื้นที่สูงสุด',
+    clearCache: 'ลบหนังสือออฟไลน์ทั้งหมด',
+    clearCacheConfirm: 'ลบหนังสือที่ดาวน์โหลดไว้ทั้งหมดหรือไม่?',
+    cacheCleared: 'ลบหนังสือออฟไลน์แล้ว',
+    cacheError: 'ไม่สามารถจัดการพื้นที่ออฟไลน์ได้',
+    protection: 'การป้องกันหน้าจอ',
+    protectionActive: 'สถานะ',
+    active: 'กำลังทำงาน',
+    inactive: 'ไม่ทำงาน',
+    permission: 'สิทธิ์บันทึกหน้าจอ',
+    granted: 'อนุญาตแล้ว',
+    notGranted: 'ยังไม่อนุญาต',
+    requestPermission: 'ขอสิทธิ์',
+    language: 'ภาษา',
+    account: 'บัญชี',
+    viewProfile: 'ดูโปรไฟล์',
+    logout: 'ออกจากระบบ',
+    about: 'เกี่ยวกับ',
+    version: 'เวอร์ชัน',
+    desktopOnly: 'ใช้ได้เฉพาะในแอปเดสก์ท็อป',
+  },
+  en: {
+    title: 'Settings',
+    reader: 'Reading defaults',
+    pageMode: 'Page mode',
+    zoomMode: 'Zoom',
+    background: 'Background',
+    theme: 'Page theme',
+    bookOverrides: 'Books with their own settings',
+    resetBookOverrides: 'Use defaults for all books',
+    cache: 'Offline books',
+    cacheUsage: 'Space used',
+    cacheBooks: 'Books',
+    cacheLimit: 'Maximum size',
+    clearCache: 'Remove all offline books',
+    clearCacheConfirm: 'Remove all downloaded books?',
+    cacheCleared: 'Offline books removed',
+    cacheError: 'Could not update offline storage',
+    protection: 'Screen protection',
+    protectionActive: 'Status',
+    active: 'Active',
+    inactive: 'Inactive',
+    permission: 'Screen recording permission',
+    granted: 'Granted',
+    notGranted: 'Not granted',
+    requestPermission: 'Request',
+    language: 'Language',
+    account: 'Account',
+    viewProfile: 'View profile',
+    logout: 'Log out',
+    about: 'About',
+    version: 'Version',
+    desktopOnly: 'Only available in the desktop app',
+  },
+};
+
+const languageOptions: { label: string; value: Language }[] = [
+  { label: 'ไทย', value: 'th' },
+  { label: 'English', value: 'en' },
+];
+
+interface ProtectionInfo extends ScreenProtectionStatus {
+  hasPermission: boolean;
+}
+
+interface SettingsPageProps {
+  onNavigate: (page: Section) => void;
+}
+
+const formatBytes = (bytes: number): string => {
+  if (bytes >= GB) return `${(bytes / GB).toFixed(1)} GB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({
+  title,
+  children,
+}) => (
+  <section className="bg-white rounded-lg border border-gray-200 p-6 space-y-4">
+    <h3 className="text-lg font-semibold text-gray-800">{title}</h3>
+    {children}
+  </section>
+);
+
+const Row: React.FC<{ label: string; children: React.ReactNode }> = ({
+  label,
+  children,
+}) => (
+  <div className="flex items-center justify-between gap-4">
+    <span className="text-sm text-gray-600">{label}</span>
+    <div className="flex items-center gap-2">{children}</div>
+  </div>
+);
+
+const optionClass = (selected: boolean): string =>
+  `px-3 py-1 rounded text-sm ${selected ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`;
+
+const SettingsPage: React.FC<SettingsPageProps> = ({ onNavigate }) => {
+  const {
+    settings,
+    updateReaderSettings,
+    resetBookReaderSettings,
+    setLanguage,
+  } = useSettings();
+  const { logout } = useAuth();
+  const { user } = useUser();
+  const [cacheStats, setCacheStats] = useState<BookCacheStats | null>(null);
+  const [protection, setProtection] = useState<ProtectionInfo | null>(null);
+  const [appInfo, setAppInfo] = useState<AppInfo | null>(null);
+
+  const text = labels[settings.language];
+  const { reader } = settings;
+  const overriddenBooks = Object.keys(settings.bookOverrides).length;
+  const hasIpc = Boolean(window.api);
+
+  const loadCacheStats = useCallback(async (): Promise<void> => {
+    if (!window.api) return;
+    try {
+      setCacheStats(await window.api.offlineCache.getStats());
+    } catch (error) {
+      console.error('[Settings] Failed to load cache stats:', error);
+    }
+  }, []);
+
+  const loadProtection = useCallback(async (): Promise<void> => {
+    if (!window.api) return;
+    try {
+      const status = await window.api.screenProtection.getStatus();
+      const hasPermission = await window.api.screenProtection.checkPermission();
+      setProtection({ ...status, hasPermission });
+    } catch (error) {
+      console.error('[Settings] Failed to load protection status:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCacheStats();
+    loadProtection();
+    if (window.api) {
+      window.api.app
+        .getInfo()
+        .then(setAppInfo)
+        .catch((error) =>
+          console.error('[Settings] Failed to load app info:', error),
+        );
+    }
+  }, [loadCacheStats, loadProtection]);
+
+  const changeCacheLimit = async (maxBytes: number): Promise<void> => {
+    try {
+      const result = await window.api.offlineCache.setLimit(maxBytes);
+      if (!result.success) throw new Error(result.error);
+      await loadCacheStats();
+    } catch (error) {
+      console.error('[Settings] Failed to change cache limit:', error);
+      toast.error(text.cacheError);
+    }
+  };
+
+  const clearCache = async (): Promise<void> => {
+    if (!window.confirm(text.clearCacheConfirm)) return;
+    try {
+      await window.api.offlineCache.clear();
+      toast.success(text.cacheCleared);
+      await loadCacheStats();
+    } catch (error) {
+      console.error('[Settings] Failed to clear cache:', error);
+      toast.error(text.cacheError);
+    }
+  };
+
+  const requestPermission = async (): Promise<void> => {
+    await window.api.screenProtection.requestPermission();
+    await loadProtection();
+  };
+
+  return (
+    <div className="flex-1 p-8 text-gray-700">
+      <h2 className="text-2xl font-bold mb-6">{text.title}</h2>
+      <div className="max-w-2xl space-y-6">
+        <Section title={text.reader}>
+          <Row label={text.pageMode}>
+            {pageModeOptions.map((opt) => (
+              <button
+                key={opt.value}
+                className={optionClass(reader.pageMode === opt.value)}
+                onClick={() => updateReaderSettings({ pageMode: opt.value })}
+              >
+                {opt.label}
+              </button>
+            ))}
+          </Row>
+          <Row label={text.zoomMode}>
+            {zoomModeOptions.map((opt) => (
+              <button
+                key={opt.value}
+                className={optionClass(reader.zoomMode === opt.value)}
+                onClick={() => updateReaderSettings({ zoomMode: opt.value })}
+              >
+                {opt.label}
+              </button>
+            ))}
+          </Row>
+          <Row label={text.theme}>
+            {themeOptions
+              .filter((opt) => opt.value !== 'custom')
+              .map((opt) => (
+                <button
+                  key={opt.value}
+                  className={optionClass(reader.theme === opt.value)}
+                  onClick={() =>
+                    updateReaderSettings({
+                      theme: opt.value,
+                      bgColor: opt.surround,
+                      customBg: '',
+                    })
+                  }
+                >
+                  {opt.label}
+                </button>
+              ))}
+          </Row>
+          <Row label={text.background}>
+            {bgOptions.map((opt) => (
+              <button
+                key={opt.value}
+                title={opt.label}
+                className={`w-6 h-6 rounded-full border-2 ${reader.bgColor === opt.value && !reader.customBg ? 'border-blue-600' : 'border-gray-300'}`}
+                style={{ background: opt.value }}
+                onClick={() =>
+                  updateReaderSettings({ bgColor: opt.value, customBg: '' })
+                }
+              />
+            ))}
+            <input
+              type="color"
+              value={reader.customBg || reader.bgColor}
+              onChange={(e) =>
+                updateReaderSettings({ customBg: e.target.value, bgColor: '' })
+              }
+              className="w-6 h-6 rounded-full border-2 border-gray-300"
+            />
+          </Row>
+          <Row label={text.bookOverrides}>
+            <span className="text-sm">{overriddenBooks}</span>
+            <button
+              className={`${optionClass(false)} disabled:opacity-50`}
+              disabled={overriddenBooks === 0}
+              onClick={() => resetBookReaderSettings()}
+            >
+              {text.resetBookOverrides}
+            </button>
+          </Row>
+        </Section>
+
+        <Section title={text.cache}>
+          {!hasIpc ? (
+            <div className="text-sm text-gray-400">{text.desktopOnly}</div>
+          ) : (
+            <>
+              <Row label={text.cacheUsage}>
+                <span className="text-sm">
+                  {cacheStats
+                    ? `${formatBytes(cacheStats.totalBytes)} / ${formatBytes(cacheStats.maxBytes)}`
+                    : '-'}
+                </span>
+              </Row>
+              {cacheStats && (
+                <div className="w-full h-2 bg-gray-200 rounded-full">
+                  <div
+                    className="h-full bg-blue-500 rounded-full"
+                    style={{
+                      width: `${Math.min(100, (cacheStats.totalBytes / cacheStats.maxBytes) * 100)}%`,
+                    }}
+                  />
+                </div>
+              )}
+              <Row label={text.cacheBooks}>
+                <span className="text-sm">{cacheStats?.count ?? '-'}</span>
+              </Row>
+              <Row label={text.cacheLimit}>
+                <select
+                  value={cacheStats?.maxBytes ?? ''}
+                  onChange={(e) => changeCacheLimit(Number(e.target.value))}
+                  className="border rounded px-2 py-1 text-sm"
+                >
+                  {cacheStats &&
+                    !cacheLimitOptions.includes(cacheStats.maxBytes) && (
+                      <option value={cacheStats.maxBytes}>
+                        {formatBytes(cacheStats.maxBytes)}
+                      </option>
+                    )}
+                  {cacheLimitOptions.map((size) => (
+                    <option key={size} value={size}>
+                      {formatBytes(size)}
+                    </option>
+                  ))}
+                </select>
+              </Row>
+              <button
+                onClick={clearCache}
+                disabled={!cacheStats || cacheStats.count === 0}
+                className="px-4 py-2 rounded bg-red-50 text-red-600 hover:bg-red-100 text-sm disabled:opacity-50"
+              >
+                {text.clearCache}
+              </button>
+            </>
+          )}
+        </Section>
+
+        <Section title={text.protection}>
+          {!hasIpc ? (
+            <div className="text-sm text-gray-400">{text.desktopOnly}</div>
+          ) : (
+            <>
+              <Row label={text.protectionActive}>
+                <span
+                  className={`text-sm font-medium ${protection?.active ? 'text-green-600' : 'text-gray-400'}`}
+                >
+                  {protection?.active ? text.active : text.inactive}
+                </span>
+              </Row>
+              <Row label={text.permission}>
+                <span className="text-sm">
+                  {protection?.hasPermission ? text.granted : text.notGranted}
+                </span>
+                {protection &&
+                  !protection.hasPermission &&
+                  protection.platform === 'darwin' && (
+                    <button
+                      onClick={requestPermission}
+                      className="px-3 py-1 rounded bg-blue-500 text-white text-sm"
+                    >
+                      {text.requestPermission}
+                    </button>
+                  )}
+              </Row>
+            </>
+          )}
+        </Section>
+
+        <Section title={text.language}>
+          <Row label={text.language}>
+            {languageOptions.map((opt) => (
+              <button
+                key={opt.value}
+                className={optionClass(settings.language === opt.value)}
+                onClick={() => setLanguage(opt.value)}
+              >
+                {opt.label}
+              </button>
+            ))}
+          </Row>
+        </Section>
+
+        <Section title={text.account}>
+          <div className="text-sm">
+            <div className="font-medium">{user?.name ?? 'Guest'}</div>
+            <div className="text-gray-500">{user?.email ?? ''}</div>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => onNavigate('profile')}
+              className="px-4 py-2 rounded bg-gray-100 hover:bg-gray-200 text-sm"
+            >
+              {text.viewProfile}
+            </button>
+            <button
+              onClick={logout}
+              className="px-4 py-2 rounded bg-red-50 text-red-600 hover:bg-red-100 text-sm"
+            >
+              {text.logout}
+            </button>
+          </div>
+        </Section>
+
+        <Section title={text.about}>
+          {appInfo ? (
+            <div className="text-sm space-y-1">
+              <div>
+                {appInfo.name} {text.version} {appInfo.version}
+              </div>
+              <div className="text-gray-500">
+                Electron {appInfo.electron} · Chrome {appInfo.chrome} ·{' '}
+                {appInfo.platform} ({appInfo.arch})
+              </div>
+            </div>
+          ) : (
+            <div className="text-sm text-gray-400">{text.desktopOnly}</div>
+          )}
+        </Section>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPage;
@@ -0,0 +1,205 @@
+import React, { useEffect, useRef, useState } from 'react';
+import toast from 'react-hot-toast';
+import { useAuth } from '../context/AuthContext';
+import OtpInput from '../components/OtpInput';
+import { formatCountdown, useOtpTimer } from '../hooks/useOtpTimer';
+import bgimage from '../assets/bgimage.png';
+
+const OTP_LENGTH = 6;
+
+interface VerifyEmailPageProps {
+  // Address the code was sent to; asked for when unknown (e.g. from login)
+  email?: string;
+  // Send a fresh code on open, when no code has just been sent
+  sendOnOpen?: boolean;
+  onVerified: () => void;
+  onBack: () => void;
+}
+
+type VerifyError = 'invalid' | 'expired' | 'network' | null;
+
+const VerifyEmailPage: React.FC<VerifyEmailPageProps> = ({
+  email: initialEmail = '',
+  sendOnOpen = false,
+  onVerified,
+  onBack,
+}) => {
+  const { verifyEmail, resendVerification } = useAuth();
+  const [email, setEmail] = useState(initialEmail);
+  const [otp, setOtp] = useState('');
+  const [verifying, setVerifying] = useState(false);
+  const [resending, setResending] = useState(false);
+  const [error, setError] = useState<VerifyError>(null);
+  // Registration has just sent a code, so the clocks start on open
+  const { sent, expiresIn, resendIn, expired, markSent } =
+    useOtpTimer(!sendOnOpen);
+  const sentOnOpenRef = useRef(false);
+  const emailValid = /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+
+  const sendCode = async (): Promise<void> => {
+    if (!emailValid) {
+      toast.error('Please enter a valid email address');
+      return;
+    }
+    setResending(true);
+    const success = await resendVerification({ email });
+    setResending(false);
+    if (success) {
+      markSent();
+      setOtp('');
+      setError(null);
+      toast.success(`A new code was sent to ${email}`);
+    } else {
+      toast.error('Could not send a new code. Please try again.');
+    }
+  };
+
+  const sendCodeRef = useRef(sendCode);
+  sendCodeRef.current = sendCode;
+
+  // Only once on open; later sends are up to the user, also when the email
+  // is typed in afterwards
+  useEffect(() => {
+    if (sentOnOpenRef.current) return;
+    sentOnOpenRef.current = true;
+    if (sendOnOpen && emailValid) sendCodeRef.current();
+  }, [sendOnOpen, emailValid]);
+
+  const submit = async (code: string = otp): Promise<void> => {
+    if (code.length !== OTP_LENGTH || verifying) return;
+    if (expired) {
+      setError('expired');
+      return;
+    }
+    setVerifying(true);
+    setError(null);
+    try {
+      const success = await verifyEmail({ otp: code, email });
+      if (success) {
+        toast.success('Email verified. You can now log in.');
+        onVerified();
+      } else {
+        setError('invalid');
+        setOtp('');
+      }
+    } catch {
+      setError('network');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const errorMessage: Record<Exclude<VerifyError, null>, string> = {
+    invalid: 'That code is incorrect. Check your email and try again.',
+    expired: 'This code has expired. Request a new one.',
+    network: 'Could not reach the server. Please try again.',
+  };
+
+  return (
+    <div
+      className="flex items-center justify-center min-h-screen p-4"
+      style={{
+        backgroundImage: `url(${bgimage})`,
+        backgroundSize: 'cover',
+        backgroundPosition: 'center',
+      }}
+    >
+      <div className="w-full max-w-md bg-white rounded-2xl shadow-xl p-8 flex flex-col items-center">
+        <h2 className="text-2xl font-semibold mb-2 text-gray-800">
+          Verify your email
+        </h2>
+        {initialEmail ? (
+          <p className="text-sm text-gray-500 mb-6 text-center">
+            Enter the {OTP_LENGTH}-digit code we sent to{' '}
+            <span className="font-medium text-gray-700">{initialEmail}</span>
+          </p>
+        ) : (
+          <div className="w-full mb-6">
+            <p className="text-sm text-gray-500 mb-3 text-center">
+              Your account needs to be verified. Enter your email to get a
+              code.
+            </p>
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="Email"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg mb-2"
+            />
+            {!sent && (
+              <button
+                type="button"
+                onClick={sendCode}
+                disabled={resending || !emailValid}
+                className="w-full py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400"
+              >
+                {resending ? 'Sending...' : 'Send code'}
+              </button>
+            )}
+          </div>
+        )}
+
+        {sent && (
+          <>
+            <OtpInput
+              value={otp}
+              onChange={(value) => {
+                setOtp(value);
+                if (error === 'invalid') setError(null);
+              }}
+              onComplete={submit}
+              length={OTP_LENGTH}
+              disabled={verifying || expired}
+              error={error !== null}
+              autoFocus
+            />
+
+            <div className="h-10 mt-3 text-sm text-center">
+              {error ? (
+                <span className="text-red-500">{errorMessage[error]}</span>
+              ) : expired ? (
+                <span className="text-red-500">{errorMessage.expired}</span>
+              ) : (
+                <span className="text-gray-500">
+                  Code expires in {formatCountdown(expiresIn)}
+                </span>
+              )}
+            </div>
+
+            <button
+              type="button"
+              onClick={() => submit()}
+              disabled={otp.length !== OTP_LENGTH || verifying || expired}
+              className="w-full py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed font-medium"
+            >
+              {verifying ? 'Verifying...' : 'Verify'}
+            </button>
+
+            <button
+              type="button"
+              onClick={sendCode}
+              disabled={resendIn > 0 || resending}
+              className="mt-4 text-sm text-blue-600 hover:underline disabled:text-gray-400 disabled:no-underline"
+            >
+              {resending
+                ? 'Sending...'
+                : resendIn > 0
+                  ? `Resend code in ${formatCountdown(resendIn)}`
+                  : 'Resend code'}
+            </button>
+          </>
+        )}
+
+        <button
+          type="button"
+          onClick={onBack}
+          className="mt-4 text-sm text-gray-500 hover:text-gray-700"
+        >
+          Back to login
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default VerifyEmailPage;
@@ -1,4 +1,12 @@
-import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import axios, {
+  AxiosError,
+  AxiosInstance,
+  AxiosRequestConfig,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from 'axios';
+import mockBackend from './mockBackend';
+import ipcAdapter from './ipcAdapter';
 
 // Base API configuration
 // Determine API base URL from environment variables, with sensible fallbacks
@@ -9,12 +17,35 @@ const BASE_URL: string = 'https://booksiam.com';
 const API_PREFIX = '';
 
 // Type for API response
-interface ApiResponse<T> {
+export interface ApiResponse<T> {
   success: boolean;
   data?: T;
   error?: string;
+  // Machine-readable error code, when the backend sends one
+  code?: string;
 }
 
+// Endpoints that don't need a session; a 401 from these is a plain failure
+// (e.g. a wrong password), not an expired token
+const PUBLIC_ENDPOINTS = [
+  'login',
+  'register',
+  'verify-email',
+  'forgot-password',
+  'verify-reset-otp',
+  'new-password',
+  'resend-otp',
+  'refresh-token',
+];
+
+const isPublicEndpoint = (url?: string): boolean =>
+  PUBLIC_ENDPOINTS.includes((url ?? '').replace(/^\//, ''));
+
+// Marks a request that has already been retried after a token refresh
+type RetriableConfig = InternalAxiosRequestConfig & { retried?: boolean };
+
+type SessionExpiredHandler = () => void;
+
 // API client class
 class ApiClient {
   private client: AxiosInstance;
@@ -23,6 +54,11 @@ class ApiClient {
 
   private userId: string | null = null;
 
+  // Refresh in progress; requests wait for it instead of starting their own
+  private refreshing: Promise<boolean> | null = null;
+
+  private sessionExpiredHandlers = new Set<SessionExpiredHandler>();
+
   constructor() {
     this.client = axios.create({
       baseURL: BASE_URL,
@@ -30,12 +66,19 @@ class ApiClient {
       headers: {
         'Content-Type': 'application/json',
       },
+      // In Electron the main process makes the actual request
+      adapter: window.api ? ipcAdapter : undefined,
     });
 
     // Request interceptor
     this.client.interceptors.request.use(
-      (config) => {
-        // Add authorization token if it exists
+      async (config) => {
+        // Hold requests while the token is being refreshed
+        if (this.refreshing && !isPublicEndpoint(config.url)) {
+          await this.refreshing;
+        }
+
+        // Only set outside Electron; there the main process adds it
         if (this.token) {
           config.headers.Authorization = `Bearer ${this.token}`;
         }
@@ -63,46 +106,126 @@ class ApiClient {
         );
         return response;
       },
-      (error) => {
+      async (error: AxiosError) => {
+        // An expired or revoked token: renew it once and replay the request,
+        // or end the session if it can't be renewed
+        const config = error.config as RetriableConfig | undefined;
+        if (
+          error.response?.status === 401 &&
+          config &&
+          !config.retried &&
+          this.userId &&
+          !isPublicEndpoint(config.url)
+        ) {
+          config.retried = true;
+          if (await this.refreshSession()) {
+            return this.client.request(config);
+          }
+          await this.expireSession();
+        }
         console.error('API Error:', error.response?.data || error.message);
         return Promise.reject(error);
       },
     );
+  }
+
+  // Renew the token. Concurrent callers share one attempt.
+  private refreshSession(): Promise<boolean> {
+    if (!this.refreshing) {
+      this.refreshing = this.renewToken()
+        .catch((error) => {
+          console.error('[API] Token refresh failed:', error);
+          return false;
+        })
+        .finally(() => {
+          this.refreshing = null;
+        });
+    }
+    return this.refreshing;
+  }
+
+  private async renewToken(): Promise<boolean> {
+    if (window.api?.auth) {
+      return await window.api.auth.refresh();
+    }
+    const response = await this.client.post<{ token?: string }>(
+      'refresh-token',
+    );
+    if (!response.data?.token) return false;
+    this.token = response.data.token;
+    return true;
+  }
 
-    // Load authentication data immediately so that each request has proper headers
-    this.loadAuth();
+  // Sign out after a token that couldn't be renewed and let the UI know
+  private async expireSession(): Promise<void> {
+    if (!this.userId) return;
+    await this.clearAuth();
+    this.sessionExpiredHandlers.forEach((handler) => handler());
   }
 
-  // Set authentication token
-  public setToken(token: string): void {
-    this.token = token;
-    localStorage.setItem('auth_token', token);
+  /**
+   * Register a handler for when the session expires and the user has been
+   * signed out. Returns a function that unregisters it.
+   */
+  public onSessionExpired(handler: SessionExpiredHandler): () => void {
+    this.sessionExpiredHandlers.add(handler);
+    return () => {
+      this.sessionExpiredHandlers.delete(handler);
+    };
   }
 
-  // Set user ID
-  public setUserId(userId: string): void {
+  // Store credentials after logging in. In Electron the main process keeps
+  // them encrypted and adds them to requests itself; in a plain browser the
+  // token is only held in memory for this session.
+  public async setCredentials(token: string, userId: string): Promise<void> {
     this.userId = userId;
-    localStorage.setItem('user_id', userId);
+    if (window.api?.auth) {
+      await window.api.auth.setCredentials(token, userId);
+    } else {
+      this.token = token;
+    }
+  }
+
+  // Get the current user ID (used to scope locally stored data)
+  public getUserId(): string | null {
+    return this.userId;
   }
 
   // Clear authentication data
-  public clearAuth(): void {
+  public async clearAuth(): Promise<void> {
     this.token = null;
     this.userId = null;
+    await window.api?.auth?.clearCredentials();
+  }
+
+  // Restore the saved session; resolves to whether the user is signed in
+  public async loadAuth(): Promise<boolean> {
+    const store = window.api?.auth;
+    if (!store) return this.token !== null;
+
+    // Older versions kept the token in localStorage: move it out of there
+    const legacyToken = localStorage.getItem('auth_token');
+    const legacyUserId = localStorage.getItem('user_id');
+    if (legacyToken && legacyUserId) {
+      await store.setCredentials(legacyToken, legacyUserId);
+    }
     localStorage.removeItem('auth_token');
     localStorage.removeItem('user_id');
-  }
 
-  // Load authentication data from local storage
-  public loadAuth(): void {
-    this.token = localStorage.getItem('auth_token');
-    this.userId = localStorage.getItem('user_id');
+    const session = await store.getSession();
+    this.userId = session.userId;
+    return session.authenticated;
   }
 
   // Generic request method
   private async request<T>(
     config: AxiosRequestConfig,
   ): Promise<ApiResponse<T>> {
+    if (mockBackend.enabled) {
+      const mocked = mockBackend.handle<T>(config, this.userId);
+      if (mocked) return mocked;
+    }
+
     try {
       const response: AxiosResponse<T> = await this.client.request<T>(config);
       return {
@@ -116,6 +239,7 @@ class ApiClient {
           error.response?.data?.message ||
           error.message ||
           'Unknown error occurred',
+        code: error.response?.data?.code,
       };
     }
   }
@@ -0,0 +1,33 @@
+// Lets parts of the UI persist state before the window closes.
+// The main process sends `app-closing`, waits for `app-closing-done`
+// (or a timeout) and only then lets the window go away.
+
+type ClosingHandler = () => void | Promise<void>;
+
+const closingHandlers = new Set<ClosingHandler>();
+
+if (window.api) {
+  window.api.app.onClosing(async () => {
+    await Promise.allSettled(
+      Array.from(closingHandlers).map((handler) =>
+        Promise.resolve().then(handler),
+      ),
+    );
+    window.api.app.closingDone();
+  });
+}
+
+const appLifecycle = {
+  /**
+   * Register a handler that runs before the window closes.
+   * Returns a function that unregisters it.
+   */
+  onClosing: (handler: ClosingHandler): (() => void) => {
+    closingHandlers.add(handler);
+    return () => {
+      closingHandlers.delete(handler);
+    };
+  },
+};
+
+export default appLifecycle;
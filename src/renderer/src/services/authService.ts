@@ -1,4 +1,4 @@
-import apiClient from './api';
+import apiClient, { ApiResponse } from './api';
 
 export interface LoginRequest {
   userId: string;
@@ -20,19 +20,47 @@ export interface VerifyEmailRequest {
   email: string;
 }
 
+export interface ResendVerificationRequest {
+  email: string;
+}
+
 export interface ForgotPasswordRequest {
   email: string;
 }
 
+export interface VerifyResetOtpRequest {
+  email: string;
+  otp: string;
+}
+
+export interface VerifyResetOtpResponse {
+  // Short-lived proof that the OTP was verified, sent with the new password
+  resetToken: string;
+}
+
 export interface NewPasswordRequest {
   Email: string;
   Password: string;
+  ResetToken: string;
 }
 
 export interface ChangePasswordRequest {
+  CurrentPassword: string;
   Password: string;
 }
 
+export interface UpdateProfileRequest {
+  firstName: string;
+  lastName: string;
+  telephone: string;
+  address: string;
+}
+
+export interface UploadAvatarRequest {
+  // Image as a data URL
+  Avatar: string;
+}
+
 export interface LoginResponse {
   token: string;
   userId: number;
@@ -40,6 +68,22 @@ export interface LoginResponse {
   userLastName: string;
 }
 
+// Raw structure returned by `user-profile`
+export interface ProfileResponse {
+  userId: number;
+  userName: string;
+  userLastName: string;
+  email: string;
+  telephone: string;
+  address: string;
+  avatarUrl: string;
+}
+
+// Login refused because the account's email hasn't been verified yet
+export const isUnverifiedAccount = (response: ApiResponse<unknown>): boolean =>
+  response.code === 'EMAIL_NOT_VERIFIED' ||
+  /not (been )?verified|unverified/i.test(response.error ?? '');
+
 // Auth service class
 const authService = {
   /**
@@ -63,6 +107,13 @@ const authService = {
     return apiClient.post<void>('verify-email', request);
   },
 
+  /**
+   * Send a new verification OTP to the email address
+   */
+  resendVerification: async (request: ResendVerificationRequest) => {
+    return apiClient.post<void>('resend-otp', request);
+  },
+
   /**
    * Request password reset
    */
@@ -70,6 +121,13 @@ const authService = {
     return apiClient.post<void>('forgot-password', request);
   },
 
+  /**
+   * Check the OTP from a password reset email
+   */
+  verifyResetOtp: async (request: VerifyResetOtpRequest) => {
+    return apiClient.post<VerifyResetOtpResponse>('verify-reset-otp', request);
+  },
+
   /**
    * Set new password after reset
    */
@@ -84,6 +142,27 @@ const authService = {
     return apiClient.post<void>('change-password', request);
   },
 
+  /**
+   * Get the signed-in user's profile
+   */
+  getProfile: async () => {
+    return apiClient.get<ProfileResponse>('user-profile');
+  },
+
+  /**
+   * Update the signed-in user's name and contact details
+   */
+  updateProfile: async (request: UpdateProfileRequest) => {
+    return apiClient.put<void>('user-profile', request);
+  },
+
+  /**
+   * Replace the signed-in user's avatar
+   */
+  uploadAvatar: async (request: UploadAvatarRequest) => {
+    return apiClient.post<{ avatarUrl: string }>('user-avatar', request);
+  },
+
   /**
    * Health check
    */
@@ -94,8 +173,8 @@ const authService = {
   /**
    * Logout - clears local auth data
    */
-  logout: () => {
-    apiClient.clearAuth();
+  logout: async () => {
+    await apiClient.clearAuth();
   },
 };
 
@@ -36,6 +36,42 @@ export interface ReadPercentRequest {
   ReadPage: number;
 }
 
+export interface Bookmark {
+  page: number;
+  note: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BookmarkListRequest {
+  BookId: number;
+  Bookmarks: Bookmark[];
+}
+
+// Area covered by a highlight, in page units at 100% zoom
+export interface HighlightRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Highlight {
+  id: string;
+  page: number;
+  text: string;
+  rects: HighlightRect[];
+  color: string;
+  note: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface HighlightListRequest {
+  BookId: number;
+  Highlights: Highlight[];
+}
+
 export interface FavoriteBookRequest {
   bookIdLists: {
     bookId: number;
@@ -159,6 +195,42 @@ const bookService = {
     };
     return apiClient.put<void>('read-percent', request);
   },
+
+  /**
+   * Get the user's bookmarks for a book
+   */
+  getBookmarks: async (bookId: number) => {
+    return apiClient.get<Bookmark[]>(`bookmark-by-user/${bookId}`);
+  },
+
+  /**
+   * Replace the user's bookmarks for a book
+   */
+  saveBookmarks: async (bookId: number, bookmarks: Bookmark[]) => {
+    const request: BookmarkListRequest = {
+      BookId: bookId,
+      Bookmarks: bookmarks,
+    };
+    return apiClient.put<void>('bookmark-by-user', request);
+  },
+
+  /**
+   * Get the user's highlights for a book
+   */
+  getHighlights: async (bookId: number) => {
+    return apiClient.get<Highlight[]>(`highlight-by-user/${bookId}`);
+  },
+
+  /**
+   * Replace the user's highlights for a book
+   */
+  saveHighlights: async (bookId: number, highlights: Highlight[]) => {
+    const request: HighlightListRequest = {
+      BookId: bookId,
+      Highlights: highlights,
+    };
+    return apiClient.put<void>('highlight-by-user', request);
+  },
 };
 
 export default bookService;
@@ -2,5 +2,6 @@
 import apiClient from './api';
 import authService from './authService';
 import bookService from './bookService';
+import appLifecycle from './appLifecycle';
 
-export { apiClient, authService, bookService };
+export { apiClient, authService, bookService, appLifecycle };
@@ -0,0 +1,67 @@
+import axios, {
+  AxiosAdapter,
+  AxiosError,
+  AxiosHeaders,
+  AxiosResponse,
+} from 'axios';
+import type { ApiHttpResponse, ApiRequest } from '../../../shared/ipc';
+
+// Hands axios requests to the main process, which holds the credentials and
+// is the only part of the app allowed on the network. Request and response
+// bodies stay text, so axios' own JSON (de)serialisation still applies.
+const ipcAdapter: AxiosAdapter = async (config) => {
+  const headers: Record<string, string> = {};
+  Object.entries(config.headers.toJSON()).forEach(([name, value]) => {
+    if (value !== null && value !== undefined) headers[name] = String(value);
+  });
+
+  let result: ApiHttpResponse;
+  try {
+    result = await window.api.http.request({
+      method: (config.method ?? 'get').toUpperCase() as ApiRequest['method'],
+      url: axios.getUri(config),
+      headers,
+      body: typeof config.data === 'string' ? config.data : undefined,
+      timeout: config.timeout || undefined,
+    });
+  } catch (error) {
+    // Errors arrive as "Error invoking remote method '...': Error: <message>"
+    const message =
+      error instanceof Error
+        ? error.message.replace(
+            /^Error invoking remote method '[^']*': (\w*Error: )?/,
+            '',
+          )
+        : 'Network Error';
+    throw new AxiosError(
+      message,
+      message.includes('timed out')
+        ? AxiosError.ECONNABORTED
+        : AxiosError.ERR_NETWORK,
+      config,
+    );
+  }
+
+  const response: AxiosResponse = {
+    data: result.body,
+    status: result.status,
+    statusText: result.statusText,
+    headers: new AxiosHeaders(result.headers),
+    config,
+    request: null,
+  };
+  if (!config.validateStatus || config.validateStatus(response.status)) {
+    return response;
+  }
+  throw new AxiosError(
+    `Request failed with status code ${response.status}`,
+    response.status >= 500
+      ? AxiosError.ERR_BAD_RESPONSE
+      : AxiosError.ERR_BAD_REQUEST,
+    config,
+    null,
+    response,
+  );
+};
+
+export default ipcAdapter;
@@ -0,0 +1,38 @@
+import apiClient from './api';
+
+// Per-user, per-book storage on top of localStorage.
+// Keys look like `<scope>:<userId>:<bookId>`.
+
+const keyFor = (scope: string, bookId: number): string =>
+  `${scope}:${apiClient.getUserId() ?? 'guest'}:${bookId}`;
+
+const localStore = {
+  /**
+   * Read a stored value, falling back when missing or unreadable
+   */
+  read: <T>(scope: string, bookId: number, fallback: T): T => {
+    try {
+      const raw = localStorage.getItem(keyFor(scope, bookId));
+      return raw ? (JSON.parse(raw) as T) : fallback;
+    } catch (error) {
+      console.error(`[LocalStore] Failed to read ${scope}:`, error);
+      return fallback;
+    }
+  },
+
+  /**
+   * Store a value for the current user and book
+   */
+  write: <T>(scope: string, bookId: number, value: T): void => {
+    localStorage.setItem(keyFor(scope, bookId), JSON.stringify(value));
+  },
+
+  /**
+   * Remove a stored value for the current user and book
+   */
+  remove: (scope: string, bookId: number): void => {
+    localStorage.removeItem(keyFor(scope, bookId));
+  },
+};
+
+export default localStore;
@@ -0,0 +1,140 @@
+import { AxiosRequestConfig } from 'axios';
+import type { ApiResponse } from './api';
+
+// Local stand-in for endpoints that aren't deployed yet, so features can be
+// developed offline. Enable with VITE_USE_MOCK_API=true; requests that no
+// route matches still go to the real API.
+
+type MockHandler = (
+  params: RegExpMatchArray,
+  body: Record<string, unknown>,
+  userId: string,
+) => unknown;
+
+interface MockRoute {
+  method: string;
+  pattern: RegExp;
+  handler: MockHandler;
+}
+
+const STORAGE_PREFIX = 'mock-api';
+
+const readTable = <T>(table: string, userId: string, fallback: T): T => {
+  const raw = localStorage.getItem(`${STORAGE_PREFIX}:${table}:${userId}`);
+  return raw ? (JSON.parse(raw) as T) : fallback;
+};
+
+const writeTable = <T>(table: string, userId: string, value: T): void => {
+  localStorage.setItem(
+    `${STORAGE_PREFIX}:${table}:${userId}`,
+    JSON.stringify(value),
+  );
+};
+
+const readProfile = (userId: string): Record<string, unknown> =>
+  readTable('profile', userId, {
+    userId: Number(userId),
+    userName: 'Demo',
+    userLastName: 'User',
+    email: `${userId}@example.com`,
+    telephone: '',
+    address: '',
+    avatarUrl: '',
+  });
+
+const routes: MockRoute[] = [
+  {
+    method: 'GET',
+    pattern: /^bookmark-by-user\/(\d+)$/,
+    handler: (params, _body, userId) =>
+      readTable(`bookmarks-${params[1]}`, userId, []),
+  },
+  {
+    method: 'PUT',
+    pattern: /^bookmark-by-user$/,
+    handler: (_params, body, userId) => {
+      writeTable(`bookmarks-${body.BookId}`, userId, body.Bookmarks ?? []);
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^highlight-by-user\/(\d+)$/,
+    handler: (params, _body, userId) =>
+      readTable(`highlights-${params[1]}`, userId, []),
+  },
+  {
+    method: 'PUT',
+    pattern: /^highlight-by-user$/,
+    handler: (_params, body, userId) => {
+      writeTable(`highlights-${body.BookId}`, userId, body.Highlights ?? []);
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^user-profile$/,
+    handler: (_params, _body, userId) => readProfile(userId),
+  },
+  {
+    method: 'PUT',
+    pattern: /^user-profile$/,
+    handler: (_params, body, userId) => {
+      writeTable('profile', userId, {
+        ...readProfile(userId),
+        userName: body.firstName,
+        userLastName: body.lastName,
+        telephone: body.telephone,
+        address: body.address,
+      });
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^user-avatar$/,
+    handler: (_params, body, userId) => {
+      writeTable('profile', userId, {
+        ...readProfile(userId),
+        avatarUrl: body.Avatar,
+      });
+      return { avatarUrl: body.Avatar };
+    },
+  },
+];
+
+const mockBackend = {
+  enabled: import.meta.env.VITE_USE_MOCK_API === 'true',
+
+  /**
+   * Answer a request locally, or return null to let it hit the network
+   */
+  handle: <T>(
+    config: AxiosRequestConfig,
+    userId: string | null,
+  ): ApiResponse<T> | null => {
+    const method = (config.method ?? 'GET').toUpperCase();
+    const url = config.url ?? '';
+
+    for (const route of routes) {
+      if (route.method !== method) continue;
+      const params = url.match(route.pattern);
+      if (!params) continue;
+
+      console.log('[MockBackend]', method, url);
+      try {
+        const data = route.handler(
+          params,
+          (config.data ?? {}) as Record<string, unknown>,
+          userId ?? 'guest',
+        );
+        return { success: true, data: data as T };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+    }
+    return null;
+  },
+};
+
+export default mockBackend;
@@ -0,0 +1,20 @@
+import type { CachedBookInfo, OfflineBookMeta } from '../../../shared/ipc';
+import { Book } from '../services/bookService';
+
+// What the offline cache keeps about a book, so the shelf can show it
+// without the server
+export const offlineMeta = (book: Book): OfflineBookMeta => ({
+  bookId: book.bookId,
+  title: book.bookName,
+  author: book.artist,
+  coverUrl: book.imageUrl || book.cover || undefined,
+});
+
+// A cached book as the library shows it. Books cached before their metadata
+// was kept only have an ID to show.
+export const bookFromOffline = (info: CachedBookInfo): Book => ({
+  bookId: info.bookId,
+  bookName: info.title || `Book #${info.bookId}`,
+  artist: info.author ?? '',
+  imageUrl: info.coverUrl,
+});
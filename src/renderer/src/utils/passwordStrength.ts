@@ -0,0 +1,67 @@
+// Password rules shared by registration, password reset and change password
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+interface PasswordRule {
+  label: string;
+  test: (password: string) => boolean;
+  // Rules that must pass for the password to be accepted
+  required: boolean;
+}
+
+const rules: PasswordRule[] = [
+  {
+    label: `At least ${MIN_PASSWORD_LENGTH} characters`,
+    test: (password) => password.length >= MIN_PASSWORD_LENGTH,
+    required: true,
+  },
+  {
+    label: 'A letter',
+    test: (password) => /[a-zA-Z]/.test(password),
+    required: true,
+  },
+  {
+    label: 'A number',
+    test: (password) => /\d/.test(password),
+    required: true,
+  },
+  {
+    label: 'Upper and lower case letters',
+    test: (password) => /[a-z]/.test(password) && /[A-Z]/.test(password),
+    required: false,
+  },
+  {
+    label: 'A symbol',
+    test: (password) => /[^a-zA-Z\d]/.test(password),
+    required: false,
+  },
+];
+
+export type StrengthLevel = 'weak' | 'fair' | 'good' | 'strong';
+
+export interface PasswordStrength {
+  // Number of rules passed, 0 to rules.length
+  score: number;
+  maxScore: number;
+  level: StrengthLevel;
+  // Whether every required rule passes
+  valid: boolean;
+  rules: { label: string; passed: boolean; required: boolean }[];
+}
+
+export const checkPasswordStrength = (password: string): PasswordStrength => {
+  const results = rules.map((rule) => ({
+    label: rule.label,
+    passed: rule.test(password),
+    required: rule.required,
+  }));
+  const score = results.filter((rule) => rule.passed).length;
+  const valid = results.every((rule) => rule.passed || !rule.required);
+
+  let level: StrengthLevel = 'weak';
+  if (valid) {
+    level = score === rules.length ? 'strong' : score > 3 ? 'good' : 'fair';
+  }
+
+  return { score, maxScore: rules.length, level, valid, rules: results };
+};
@@ -0,0 +1,124 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import type { RefProxy } from 'pdfjs-dist/types/src/display/api';
+import type { IPDFLinkService } from 'pdfjs-dist/types/web/interfaces';
+
+// Link handling for the annotation layer. Internal links jump pages in the
+// reader; external links open in a new window, which the main process hands
+// to the system browser through its window open handler.
+
+export type PdfDestination = string | unknown[] | null;
+
+/**
+ * Resolve a destination (named or explicit) to a 1-based page
+ */
+export const resolveDestinationPage = async (
+  pdf: pdfjsLib.PDFDocumentProxy,
+  dest: PdfDestination,
+): Promise<number | null> => {
+  try {
+    const explicitDest =
+      typeof dest === 'string' ? await pdf.getDestination(dest) : dest;
+    if (!Array.isArray(explicitDest) || explicitDest.length === 0) return null;
+
+    const target = explicitDest[0];
+    if (typeof target === 'number') return target + 1;
+    if (target && typeof target === 'object') {
+      return (await pdf.getPageIndex(target as RefProxy)) + 1;
+    }
+  } catch (error) {
+    console.warn('[PdfLinks] Failed to resolve destination:', dest, error);
+  }
+  return null;
+};
+
+export interface ReaderNavigation {
+  goToPage: (page: number) => void;
+  goNext: () => void;
+  goPrev: () => void;
+}
+
+export class ReaderLinkService implements IPDFLinkService {
+  externalLinkEnabled = true;
+
+  constructor(
+    private readonly pdf: pdfjsLib.PDFDocumentProxy,
+    private readonly navigation: ReaderNavigation,
+  ) {}
+
+  get pagesCount(): number {
+    return this.pdf.numPages;
+  }
+
+  // The reader owns the current page, so these are write-only here
+  get page(): number {
+    return 0;
+  }
+
+  set page(value: number) {
+    this.goToPage(value);
+  }
+
+  // Pages are always shown upright
+  get rotation(): number {
+    return 0;
+  }
+
+  get isInPresentationMode(): boolean {
+    return false;
+  }
+
+  async goToDestination(dest: string | unknown[]): Promise<void> {
+    const page = await resolveDestinationPage(this.pdf, dest);
+    if (page !== null) this.goToPage(page);
+  }
+
+  goToPage(val: number | string): void {
+    const page = typeof val === 'number' ? val : parseInt(val, 10);
+    if (page >= 1 && page <= this.pdf.numPages) {
+      this.navigation.goToPage(page);
+    }
+  }
+
+  addLinkAttributes(
+    link: HTMLAnchorElement,
+    url: string,
+  ): void {
+    link.href = url;
+    link.title = url;
+    link.target = '_blank';
+    link.rel = 'noopener noreferrer nofollow';
+  }
+
+  getDestinationHash(dest: unknown): string {
+    return typeof dest === 'string' ? `#${encodeURIComponent(dest)}` : '#';
+  }
+
+  getAnchorUrl(hash: string): string {
+    return `#${hash}`;
+  }
+
+  setHash(): void {
+    // Reader state isn't kept in the URL
+  }
+
+  executeNamedAction(action: string): void {
+    switch (action) {
+      case 'NextPage':
+        this.navigation.goNext();
+        break;
+      case 'PrevPage':
+        this.navigation.goPrev();
+        break;
+      case 'FirstPage':
+        this.goToPage(1);
+        break;
+      case 'LastPage':
+        this.goToPage(this.pdf.numPages);
+        break;
+    }
+  }
+
+  executeSetOCGState(): void {
+    // Optional content (layer toggles) isn't supported
+  }
+}
@@ -0,0 +1,44 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import type { PdfStreamInfo } from '../../../shared/ipc';
+
+// Lets pdfjs read a book in byte ranges through the main process, which
+// streams it from the server (see src/main/pdfStreams.ts). pdfjs asks only for
+// what the pages being shown need, so the first page appears long before the
+// whole file has arrived.
+
+// Also the size of the stream's initial data, which pdfjs then takes as one
+// whole chunk
+export const RANGE_CHUNK_SIZE = 256 * 1024;
+
+export class IpcRangeTransport extends pdfjsLib.PDFDataRangeTransport {
+  private readonly streamId: string;
+  private readonly onError: (error: unknown) => void;
+  private closed = false;
+
+  // pdfjs has no way to hear about a failed range, so onError gets it instead
+  constructor(stream: PdfStreamInfo, onError: (error: unknown) => void) {
+    super(stream.length, stream.initialData);
+    this.streamId = stream.streamId;
+    this.onError = onError;
+  }
+
+  requestDataRange(begin: number, end: number): void {
+    window.api.books.readRange(this.streamId, begin, end).then(
+      (chunk) => {
+        if (!this.closed) this.onDataRange(begin, chunk);
+      },
+      (error) => {
+        if (!this.closed) this.onError(error);
+      },
+    );
+  }
+
+  // Called by pdfjs when the document is destroyed
+  abort(): void {
+    if (this.closed) return;
+    this.closed = true;
+    window.api.books.closeStream(this.streamId).catch((error) => {
+      console.warn('[PdfRangeTransport] Failed to close stream:', error);
+    });
+  }
+}
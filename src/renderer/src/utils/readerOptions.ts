@@ -0,0 +1,84 @@
+import type { ZoomMode } from '../hooks/useZoom';
+
+// Choices offered by the reader toolbar and the settings page
+
+export type PageMode = 'single' | 'double' | 'scroll';
+
+export const pageModeOptions: { label: string; value: PageMode }[] = [
+  { label: 'Single', value: 'single' },
+  { label: 'Double', value: 'double' },
+  { label: 'Scroll', value: 'scroll' },
+];
+
+export const zoomModeOptions: { label: string; value: ZoomMode }[] = [
+  { label: 'Fit Width', value: 'fit-width' },
+  { label: 'Fit Page', value: 'fit-page' },
+  { label: '100%', value: 'actual' },
+];
+
+export interface BgOption {
+  label: string;
+  value: string;
+}
+
+export const bgOptions: BgOption[] = [
+  { label: 'White', value: '#fff' },
+  { label: 'Sepia', value: '#f6ecd9' },
+  { label: 'Gray', value: '#f3f4f6' },
+  { label: 'Dark', value: '#181818' },
+];
+
+// Colours pdf.js draws page text and vector graphics with. Images are left
+// as they are so photos and illustrations keep their natural colours.
+export interface PageColors {
+  background: string;
+  foreground: string;
+}
+
+export type ReaderTheme =
+  | 'light'
+  | 'sepia'
+  | 'dark'
+  | 'high-contrast'
+  | 'custom';
+
+export interface ThemeOption {
+  label: string;
+  value: ReaderTheme;
+  // Left out to render the PDF as authored
+  pageColors?: PageColors;
+  // Background around the page that goes with the theme
+  surround: string;
+}
+
+export const themeOptions: ThemeOption[] = [
+  { label: 'Light', value: 'light', surround: '#fff' },
+  {
+    label: 'Sepia',
+    value: 'sepia',
+    pageColors: { background: '#f6ecd9', foreground: '#5b4636' },
+    surround: '#f6ecd9',
+  },
+  {
+    label: 'Night',
+    value: 'dark',
+    pageColors: { background: '#1e1e1e', foreground: '#d4d4d4' },
+    surround: '#181818',
+  },
+  {
+    label: 'High Contrast',
+    value: 'high-contrast',
+    pageColors: { background: '#000000', foreground: '#ffff00' },
+    surround: '#000',
+  },
+  { label: 'Custom', value: 'custom', surround: '#181818' },
+];
+
+// Page colours for a theme; the custom theme uses the reader's own colours
+export const pageColorsFor = (
+  theme: ReaderTheme,
+  customColors: PageColors,
+): PageColors | undefined =>
+  theme === 'custom'
+    ? customColors
+    : themeOptions.find((opt) => opt.value === theme)?.pageColors;
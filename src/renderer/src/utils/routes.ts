@@ -0,0 +1,70 @@
+// Screens the app can show. Each one has a path (the part of the URL after
+// '#'), so it can be linked to and kept in the back/forward history.
+
+// Screens reachable from the sidebar
+export type Section = 'library' | 'mylist' | 'mycloud' | 'profile' | 'settings';
+
+export type Route =
+  | { name: Section }
+  | { name: 'book'; bookId: number }
+  // Without a page the reader resumes at the saved reading position
+  | { name: 'read'; bookId: number; page?: number };
+
+const sections: Section[] = [
+  'library',
+  'mylist',
+  'mycloud',
+  'profile',
+  'settings',
+];
+
+export const DEFAULT_ROUTE: Route = { name: 'library' };
+
+const parseId = (value: string | undefined): number | null => {
+  if (!value || !/^\d+$/.test(value)) return null;
+  const id = Number(value);
+  return id > 0 ? id : null;
+};
+
+// Returns null for paths that don't match any screen
+export const parseRoute = (path: string): Route | null => {
+  const [name, ...params] = path
+    .replace(/^#/, '')
+    .split('?')[0]
+    .split('/')
+    .filter(Boolean);
+
+  if (sections.includes(name as Section) && params.length === 0) {
+    return { name: name as Section };
+  }
+
+  const bookId = parseId(params[0]);
+  if (name === 'book' && bookId !== null && params.length === 1) {
+    return { name: 'book', bookId };
+  }
+  if (name === 'read' && bookId !== null && params.length === 1) {
+    return { name: 'read', bookId };
+  }
+  if (name === 'read' && bookId !== null && params.length === 2) {
+    const page = parseId(params[1]);
+    return page !== null ? { name: 'read', bookId, page } : null;
+  }
+  return null;
+};
+
+export const routePath = (route: Route): string => {
+  switch (route.name) {
+    case 'book':
+      return `/book/${route.bookId}`;
+    case 'read':
+      return route.page
+        ? `/read/${route.bookId}/${route.page}`
+        : `/read/${route.bookId}`;
+    default:
+      return `/${route.name}`;
+  }
+};
+
+// The sidebar entry a screen belongs to, if any
+export const routeSection = (route: Route): Section | null =>
+  route.name === 'book' || route.name === 'read' ? null : route.name;
@@ -0,0 +1,131 @@
+// Text matching shared by the search worker and the page highlighter.
+// Handles Thai, which has no spaces between words and stacks vowel/tone
+// marks on consonants, so plain substring search gives poor results.
+
+export interface SearchOptions {
+  wholeWord: boolean;
+}
+
+export interface SearchHit {
+  page: number;
+  // Position of this hit among the hits on the same page
+  ordinal: number;
+  before: string;
+  match: string;
+  after: string;
+}
+
+const ZERO_WIDTH = /[\u200B-\u200D\uFEFF]/g;
+// Thai vowel and tone marks that combine with the preceding consonant
+const THAI_COMBINING = /[\u0E31\u0E34-\u0E3A\u0E47-\u0E4E]/;
+
+const wordSegmenter =
+  typeof Intl.Segmenter === 'function'
+    ? new Intl.Segmenter('th', { granularity: 'word' })
+    : null;
+
+/**
+ * Normalize text for display and matching: NFC, no zero-width characters,
+ * single spaces. Keeps case so snippets read naturally.
+ */
+export const normalizeText = (text: string): string =>
+  text.normalize('NFC').replace(ZERO_WIDTH, '').replace(/\s+/g, ' ');
+
+export interface PageText {
+  text: string;
+  // Where each item's string ended up in `text`, as [start, end)
+  spans: [number, number][];
+}
+
+/**
+ * A page's text as search sees it, from its text items, remembering where
+ * each item went. Items are normalized one by one and a whitespace run across
+ * items collapses as normalizeText would, so the result is already
+ * normalized; matches found in it map back onto the items through `spans`.
+ */
+export const buildPageText = (
+  items: { str: string; hasEOL?: boolean }[],
+): PageText => {
+  let text = '';
+  const append = (piece: string): [number, number] => {
+    let normalized = normalizeText(piece);
+    if (normalized.startsWith(' ') && text.endsWith(' ')) {
+      normalized = normalized.slice(1);
+    }
+    const start = text.length;
+    text += normalized;
+    return [start, text.length];
+  };
+
+  const spans = items.map((item) => {
+    const span = append(item.str);
+    if (item.hasEOL) append('\n');
+    return span;
+  });
+  return { text, spans };
+};
+
+/**
+ * Case-fold normalized text for comparison. Offsets in the folded text are
+ * used on the original, so this must not change its length: characters that
+ * lowercase to a different length (e.g. 'İ') are left as they are.
+ */
+export const foldText = (text: string): string =>
+  Array.from(text, (char) => {
+    const lower = char.toLocaleLowerCase();
+    return lower.length === char.length ? lower : char;
+  }).join('');
+
+/**
+ * Offsets where words start or end, using the Thai-aware word segmenter
+ */
+export const wordBoundaries = (text: string): Set<number> => {
+  const boundaries = new Set<number>([0, text.length]);
+  if (wordSegmenter) {
+    for (const segment of wordSegmenter.segment(text)) {
+      boundaries.add(segment.index);
+      boundaries.add(segment.index + segment.segment.length);
+    }
+  } else {
+    const pattern = /\s+/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text))) {
+      boundaries.add(match.index);
+      boundaries.add(match.index + match[0].length);
+    }
+  }
+  return boundaries;
+};
+
+/**
+ * Start offsets of `query` in `text`. Both must already be normalized and
+ * folded. Matches never split a Thai consonant from its marks, and with
+ * `wholeWord` must start and end on a word boundary.
+ */
+export const findMatches = (
+  text: string,
+  query: string,
+  options: SearchOptions,
+  boundaries?: Set<number>,
+): number[] => {
+  const matches: number[] = [];
+  if (!query) return matches;
+
+  const wordEdges = options.wholeWord
+    ? (boundaries ?? wordBoundaries(text))
+    : null;
+  let from = 0;
+  while (from <= text.length - query.length) {
+    const start = text.indexOf(query, from);
+    if (start === -1) break;
+    const end = start + query.length;
+
+    const splitsCluster = THAI_COMBINING.test(text.charAt(end));
+    const onWordEdges =
+      !wordEdges || (wordEdges.has(start) && wordEdges.has(end));
+    if (!splitsCluster && onWordEdges) matches.push(start);
+
+    from = start + 1;
+  }
+  return matches;
+};
@@ -0,0 +1,87 @@
+import {
+  SearchHit,
+  SearchOptions,
+  findMatches,
+  foldText,
+  normalizeText,
+  wordBoundaries,
+} from '../utils/textSearch';
+
+// Keeps the text of every page and answers search queries off the UI thread
+
+// Page text comes from buildPageText, already normalized; the highlighter
+// finds hits in that same text, so ordinals agree
+export type SearchWorkerRequest =
+  | { type: 'index'; pages: { page: number; text: string }[] }
+  | { type: 'search'; id: number; query: string; options: SearchOptions };
+
+export type SearchWorkerResponse = {
+  type: 'results';
+  id: number;
+  hits: SearchHit[];
+  truncated: boolean;
+};
+
+interface IndexedPage {
+  text: string;
+  folded: string;
+  // Computed on first whole-word search
+  boundaries?: Set<number>;
+}
+
+const MAX_HITS = 500;
+const SNIPPET_CONTEXT = 40;
+
+const pages = new Map<number, IndexedPage>();
+
+const search = (query: string, options: SearchOptions): SearchWorkerResponse['hits'] => {
+  const needle = foldText(normalizeText(query).trim());
+  const hits: SearchHit[] = [];
+  if (!needle) return hits;
+
+  const pageNumbers = Array.from(pages.keys()).sort((a, b) => a - b);
+  for (const pageNumber of pageNumbers) {
+    const indexed = pages.get(pageNumber)!;
+    if (options.wholeWord && !indexed.boundaries) {
+      indexed.boundaries = wordBoundaries(indexed.folded);
+    }
+
+    const starts = findMatches(
+      indexed.folded,
+      needle,
+      options,
+      indexed.boundaries,
+    );
+    starts.forEach((start, ordinal) => {
+      const end = start + needle.length;
+      hits.push({
+        page: pageNumber,
+        ordinal,
+        before: indexed.text.slice(Math.max(0, start - SNIPPET_CONTEXT), start),
+        match: indexed.text.slice(start, end),
+        after: indexed.text.slice(end, end + SNIPPET_CONTEXT),
+      });
+    });
+    if (hits.length > MAX_HITS) break;
+  }
+  return hits;
+};
+
+self.onmessage = (event: MessageEvent<SearchWorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'index') {
+    for (const { page, text } of request.pages) {
+      pages.set(page, { text, folded: foldText(text) });
+    }
+  } else if (request.type === 'search') {
+    const hits = search(request.query, request.options);
+    const response: SearchWorkerResponse = {
+      type: 'results',
+      id: request.id,
+      hits: hits.slice(0, MAX_HITS),
+      truncated: hits.length > MAX_HITS,
+    };
+    self.postMessage(response);
+  }
+};
@@ -0,0 +1,221 @@
+// The IPC contract between the main process and the renderer. Every channel
+// is listed here with its argument and result types; the preload exposes
+// exactly these as window.api and the main process only handles these.
+
+export interface OperationResult {
+  success: boolean
+  error?: string
+}
+
+// What the offline shelf shows for a book, kept with its cached copy
+export interface OfflineBookMeta {
+  bookId: number
+  title: string
+  author: string
+  coverUrl?: string
+}
+
+// Books cached before their metadata was kept have only the ID
+export interface CachedBookInfo extends Partial<OfflineBookMeta> {
+  bookId: number
+  size: number
+  cachedAt: number
+  lastAccess: number
+}
+
+export interface BookCacheStats {
+  totalBytes: number
+  maxBytes: number
+  count: number
+}
+
+export type Settings = Record<string, unknown>
+
+export interface AuthSession {
+  authenticated: boolean
+  userId: string | null
+}
+
+export interface AppInfo {
+  name: string
+  version: string
+  electron: string
+  chrome: string
+  platform: string
+  arch: string
+}
+
+export interface PlatformInfo {
+  platform: string
+  arch: string
+  version: string
+}
+
+export interface ScreenProtectionStatus {
+  active: boolean
+  platform: string
+}
+
+// A backend request made by the main process on the renderer's behalf; the
+// renderer itself can't reach the network
+export interface ApiRequest {
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+  url: string
+  headers: Record<string, string>
+  // Already serialised, e.g. as JSON
+  body?: string
+  timeout?: number
+}
+
+export interface ApiHttpResponse {
+  status: number
+  statusText: string
+  headers: Record<string, string>
+  body: string
+}
+
+// Sent while a book's PDF downloads, about four times a second
+export interface DownloadProgress {
+  downloadId: string
+  receivedBytes: number
+  // null when the server doesn't say how big the file is
+  totalBytes: number | null
+  bytesPerSecond: number
+}
+
+// A book opened for reading in byte ranges
+export interface PdfStreamInfo {
+  streamId: string
+  // Size of the whole file
+  length: number
+  // The first bytes of the file
+  initialData: Uint8Array
+}
+
+// Request/response channels (ipcRenderer.invoke -> ipcMain.handle)
+export interface InvokeChannels {
+  // Downloads a book's PDF; with the book given the offline cache is used and
+  // filled. With a download ID it reports 'pdf-download-progress' and can be
+  // cancelled.
+  'fetch-pdf': {
+    args: [url: string, book?: OfflineBookMeta, downloadId?: string]
+    result: Uint8Array
+  }
+  // Stops a running 'fetch-pdf'; false when it had already finished
+  'cancel-pdf-download': { args: [downloadId: string]; result: boolean }
+  // Starts streaming a book's PDF; null when the server can't serve ranges.
+  // Once the whole file is in, a given book goes into the offline cache.
+  'pdf-stream-open': { args: [url: string, book?: OfflineBookMeta]; result: PdfStreamInfo | null }
+  // Bytes [begin, end) of an open stream
+  'pdf-stream-read': { args: [streamId: string, begin: number, end: number]; result: Uint8Array }
+  'pdf-stream-close': { args: [streamId: string]; result: void }
+  // The offline copy only; null when the book isn't cached
+  'read-offline-book': { args: [bookId: number]; result: Uint8Array | null }
+  'download-book-offline': { args: [book: OfflineBookMeta, url: string]; result: OperationResult }
+  'get-offline-books': { args: []; result: CachedBookInfo[] }
+  'remove-offline-book': { args: [bookId: number]; result: OperationResult }
+  'get-offline-cache-stats': { args: []; result: BookCacheStats }
+  'clear-offline-cache': { args: []; result: OperationResult }
+  'set-offline-cache-limit': { args: [maxBytes: number]; result: OperationResult }
+  'get-settings': { args: []; result: Settings }
+  // Merges the patch into the stored settings and returns the result
+  'set-settings': { args: [patch: Settings]; result: Settings }
+  'auth-set-credentials': { args: [token: string, userId: string]; result: void }
+  'auth-clear-credentials': { args: []; result: void }
+  'auth-get-session': { args: []; result: AuthSession }
+  // Renews the stored token; false when the session can't be renewed
+  'auth-refresh': { args: []; result: boolean }
+  'get-app-info': { args: []; result: AppInfo }
+  'check-platform-info': { args: []; result: PlatformInfo }
+  'check-screen-permission': { args: []; result: boolean }
+  'request-screen-permission': { args: []; result: boolean }
+  'start-screen-protection': { args: []; result: OperationResult }
+  'stop-screen-protection': { args: []; result: OperationResult }
+  'get-screen-protection-status': { args: []; result: ScreenProtectionStatus }
+  'api-request': { args: [request: ApiRequest]; result: ApiHttpResponse }
+  // The waiting booksiam:// link as a route path; each link is handed out once
+  'deep-link-take': { args: []; result: string | null }
+}
+
+// Messages from the renderer that need no answer (ipcRenderer.send -> ipcMain.on)
+export interface SendChannels {
+  // The renderer is done saving after 'app-closing'
+  'app-closing-done': []
+  'app-quit': []
+}
+
+// Messages from the main process (webContents.send -> ipcRenderer.on)
+export interface EventChannels {
+  // The window is about to close; answer with 'app-closing-done'
+  'app-closing': []
+  // A booksiam:// link arrived; fetch it with 'deep-link-take'
+  'deep-link': []
+  'screen-capture-detected': []
+  'pdf-download-progress': [progress: DownloadProgress]
+}
+
+export type InvokeChannel = keyof InvokeChannels
+export type InvokeArgs<C extends InvokeChannel> = InvokeChannels[C]['args']
+export type InvokeResult<C extends InvokeChannel> = InvokeChannels[C]['result']
+export type SendChannel = keyof SendChannels
+export type EventChannel = keyof EventChannels
+
+type Invoker<C extends InvokeChannel> = (...args: InvokeArgs<C>) => Promise<InvokeResult<C>>
+
+// Returns a function that unsubscribes
+type Subscriber<Args extends unknown[] = []> = (handler: (...args: Args) => void) => () => void
+
+// What the preload exposes as window.api
+export interface AppAPI {
+  books: {
+    fetchPdf: Invoker<'fetch-pdf'>
+    readOffline: Invoker<'read-offline-book'>
+    downloadOffline: Invoker<'download-book-offline'>
+    listOffline: Invoker<'get-offline-books'>
+    removeOffline: Invoker<'remove-offline-book'>
+    cancelDownload: Invoker<'cancel-pdf-download'>
+    onDownloadProgress: Subscriber<EventChannels['pdf-download-progress']>
+    openStream: Invoker<'pdf-stream-open'>
+    readRange: Invoker<'pdf-stream-read'>
+    closeStream: Invoker<'pdf-stream-close'>
+  }
+  offlineCache: {
+    getStats: Invoker<'get-offline-cache-stats'>
+    clear: Invoker<'clear-offline-cache'>
+    setLimit: Invoker<'set-offline-cache-limit'>
+  }
+  http: {
+    request: Invoker<'api-request'>
+  }
+  settings: {
+    get: Invoker<'get-settings'>
+    set: Invoker<'set-settings'>
+  }
+  // Credentials are stored and used by the main process; the token can be
+  // handed over but never read back
+  auth: {
+    setCredentials: Invoker<'auth-set-credentials'>
+    clearCredentials: Invoker<'auth-clear-credentials'>
+    getSession: Invoker<'auth-get-session'>
+    refresh: Invoker<'auth-refresh'>
+  }
+  deepLinks: {
+    take: Invoker<'deep-link-take'>
+    onReceived: Subscriber
+  }
+  app: {
+    getInfo: Invoker<'get-app-info'>
+    getPlatformInfo: Invoker<'check-platform-info'>
+    quit: () => void
+    onClosing: Subscriber
+    closingDone: () => void
+  }
+  screenProtection: {
+    checkPermission: Invoker<'check-screen-permission'>
+    requestPermission: Invoker<'request-screen-permission'>
+    start: Invoker<'start-screen-protection'>
+    stop: Invoker<'stop-screen-protection'>
+    getStatus: Invoker<'get-screen-protection-status'>
+    onCaptureDetected: Subscriber
+  }
+}